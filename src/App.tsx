@@ -2,8 +2,12 @@ import { useState, useEffect } from 'react'
 import { AppLayout } from './components/Layout/AppLayout'
 import { NoteList } from './components/Features/NoteList'
 import { MemoEditor } from './components/Editor/MemoEditor'
-import { db } from './db/db'
+import { SearchDialog } from './components/Features/SearchDialog'
+import { db, deleteUnusedImages } from './db/db'
 import { v4 as uuidv4 } from 'uuid'
+import { parseWikiLink } from './utils/wikiLinks'
+import { indexMissingInk } from './utils/inkIndex'
+import { buildTitleIndex, renameLinks, rewriteNoteLinks } from './utils/noteLinks'
 
 function App() {
   const [activeFolderId, setActiveFolderId] = useState<string | null>(null);
@@ -13,6 +17,9 @@ function App() {
   const activeNoteId = noteHistory.length > 0 ? noteHistory[noteHistory.length - 1] : null;
   const [activeNoteTitle, setActiveNoteTitle] = useState<string>("");
   const [initStatus, setInitStatus] = useState<string>("Initializing...");
+  const [showSearch, setShowSearch] = useState(false);
+  // Canvas elements to bring into view when a note is opened from search
+  const [focusTarget, setFocusTarget] = useState<{ noteId: string, elementIds: string[] } | null>(null);
 
   useEffect(() => {
     // Attempt to unlock orientation to allow landscape
@@ -28,6 +35,9 @@ function App() {
       try {
         setInitStatus("Checking Database...");
         await db.open();
+        // Housekeeping; nothing waits for it
+        deleteUnusedImages().catch(e => console.error('Image cleanup failed:', e));
+        indexMissingInk().catch(e => console.warn('Handwriting indexing failed:', e));
         setInitStatus("Loading Resources...");
         // Small artificial delay to let user see the status if it's too fast, 
         // reassuring them that things are working.
@@ -40,6 +50,23 @@ function App() {
     init();
   }, []);
 
+  // Ctrl+K / Cmd+K: search everywhere
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setShowSearch(true);
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  // A focus target only applies to the visit it was opened for
+  useEffect(() => {
+    if (focusTarget && focusTarget.noteId !== activeNoteId) setFocusTarget(null);
+  }, [activeNoteId]);
+
   // Fetch title when active note changes
   useEffect(() => {
     if (activeNoteId) {
@@ -59,8 +86,13 @@ function App() {
   }
 
   const handleLinkClick = async (title: string, targetFolderId?: string | null): Promise<'OPEN' | 'DELETE' | 'CANCEL'> => {
-    const cleanTitle = title.replace(/^\[\[|\]\]$/g, '');
-    const existing = await db.notes.where('title').equals(cleanTitle).first();
+    // Alias and heading don't take part in resolving: [[Title#heading|text]] opens "Title"
+    const link = parseWikiLink(title.replace(/^\[\[|\]\]$/g, ''));
+    // Id links show their title as display text; a missing target is recreated under that id and title
+    const cleanTitle = link.noteId ? link.display || '無題のメモ' : link.target;
+    const existing = link.noteId
+      ? await db.notes.get(link.noteId)
+      : await db.notes.where('title').equals(cleanTitle).first();
 
     if (existing) {
       setNoteHistory(prev => [...prev, existing.id]);
@@ -74,7 +106,7 @@ function App() {
       // Using browser confirm/prompt is limited. We'll use a confirm for Create, and if No, maybe another confirm?
       // Or just a primitive flow:
       if (confirm(`Linked note "${cleanTitle}" not found.\n\nClick OK to CREATE it.\nClick Cancel to DELETE the link.`)) {
-        const id = uuidv4();
+        const id = link.noteId ?? uuidv4();
         // Use provided targetFolderId (from note context) or fallback to activeFolderId (nav context)
         const finalFolderId = targetFolderId !== undefined ? targetFolderId : activeFolderId;
 
@@ -100,6 +132,11 @@ function App() {
     }
   };
 
+  const openSearchResult = (noteId: string, elementIds?: string[]) => {
+    setFocusTarget(elementIds ? { noteId, elementIds } : null);
+    setNoteHistory(prev => prev[prev.length - 1] === noteId ? prev : [...prev, noteId]);
+  };
+
   const handleBack = () => {
     setNoteHistory(prev => {
       if (prev.length <= 1) return []; // If only 1 left, clear to go back to list
@@ -111,7 +148,18 @@ function App() {
     if (!activeNoteId) return;
     const newTitle = prompt("Edit Note Title:", activeNoteTitle);
     if (newTitle && newTitle !== activeNoteTitle) {
-      await db.notes.update(activeNoteId, { title: newTitle, updatedAt: Date.now() });
+      const oldTitle = activeNoteTitle;
+      await db.transaction('rw', db.notes, async () => {
+        const notes = await db.notes.toArray();
+        const rewrite = renameLinks(activeNoteId, oldTitle, newTitle, buildTitleIndex(notes));
+        await db.notes.update(activeNoteId, { title: newTitle, updatedAt: Date.now() });
+        // Update the shown link text everywhere else; the open note's own content belongs to the editor
+        for (const note of notes) {
+          if (note.id === activeNoteId) continue;
+          const changes = rewriteNoteLinks(note, rewrite);
+          if (changes) await db.notes.update(note.id, changes);
+        }
+      });
       setActiveNoteTitle(newTitle);
     }
   };
@@ -134,14 +182,17 @@ function App() {
           onBack={handleBack}
           onLinkClick={handleLinkClick}
           externalTitle={activeNoteTitle}
+          focusElementIds={focusTarget?.noteId === activeNoteId ? focusTarget.elementIds : undefined}
         />
       ) : (
         <NoteList
           folderId={activeFolderId}
           onSelectNote={(id) => setNoteHistory([id])}
           onSelectFolder={setActiveFolderId}
+          onSearch={() => setShowSearch(true)}
         />
       )}
+      {showSearch && <SearchDialog onOpen={openSearchResult} onClose={() => setShowSearch(false)} />}
     </AppLayout>
   )
 }
@@ -0,0 +1,75 @@
+import React, { useMemo } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { Link as LinkIcon, X } from 'lucide-react';
+import { db } from '../../db/db';
+import { buildTitleIndex, findBacklinks, findUnlinkedMentions, linkMention, type UnlinkedMention } from '../../utils/noteLinks';
+
+interface BacklinksPanelProps {
+    noteId: string;
+    title: string;
+    onOpen: (noteId: string, title: string) => void;
+    onClose: () => void;
+}
+
+export const BacklinksPanel: React.FC<BacklinksPanelProps> = ({ noteId, title, onOpen, onClose }) => {
+    const notes = useLiveQuery(() => db.notes.toArray(), []);
+
+    const { backlinks, mentions } = useMemo(() => {
+        if (!notes) return { backlinks: [], mentions: [] };
+        const target = { id: noteId, title };
+        return {
+            backlinks: findBacklinks(notes, target, buildTitleIndex(notes)),
+            mentions: findUnlinkedMentions(notes, target)
+        };
+    }, [notes, noteId, title]);
+
+    const convert = async (mention: UnlinkedMention) => {
+        const note = await db.notes.get(mention.noteId);
+        // The note may have changed since the list was built
+        const current = note ? findUnlinkedMentions([note], { id: noteId, title }) : [];
+        if (!note || !current.some(m => m.index === mention.index && m.length === mention.length)) {
+            alert("メモが変更されています。もう一度お試しください。");
+            return;
+        }
+        await db.notes.update(mention.noteId, { content: linkMention(note.content, mention, noteId), updatedAt: Date.now() });
+    };
+
+    return (
+        <div className="absolute top-16 left-2 z-[55] w-72 max-h-[70%] flex flex-col bg-white border rounded shadow-lg text-xs">
+            <div className="flex items-center justify-between px-2 py-1 border-b bg-muted/20 shrink-0">
+                <span className="font-bold">Backlinks</span>
+                <button onClick={onClose} className="p-1 hover:bg-muted rounded" title="Close"><X size={14} /></button>
+            </div>
+            <div className="overflow-y-auto">
+                <div className="px-2 py-1 text-gray-500 bg-gray-50 border-b">Linked ({backlinks.length})</div>
+                {backlinks.length === 0 && <div className="px-2 py-2 text-gray-400">No notes link here</div>}
+                {backlinks.map(b => (
+                    <div key={b.noteId} className="px-2 py-1 border-b">
+                        <button onClick={() => onOpen(b.noteId, b.title)} className="font-bold text-blue-600 hover:underline truncate max-w-full text-left">
+                            {b.title || '無題のメモ'}
+                        </button>
+                        {b.snippets.map((snippet, i) => (
+                            <div key={i} className="text-gray-600 break-words">{snippet}</div>
+                        ))}
+                    </div>
+                ))}
+
+                <div className="px-2 py-1 text-gray-500 bg-gray-50 border-b">Unlinked mentions ({mentions.length})</div>
+                {mentions.length === 0 && <div className="px-2 py-2 text-gray-400">No unlinked mentions</div>}
+                {mentions.map(m => (
+                    <div key={`${m.noteId}:${m.index}`} className="px-2 py-1 border-b">
+                        <div className="flex items-center gap-1">
+                            <button onClick={() => onOpen(m.noteId, m.title)} className="flex-1 font-bold text-blue-600 hover:underline truncate text-left">
+                                {m.title || '無題のメモ'}
+                            </button>
+                            <button onClick={() => convert(m)} className="flex items-center gap-0.5 px-1 hover:bg-muted rounded shrink-0" title="Convert to link">
+                                <LinkIcon size={12} /> Link
+                            </button>
+                        </div>
+                        <div className="text-gray-600 break-words">{m.snippet}</div>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
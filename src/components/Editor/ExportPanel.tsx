@@ -0,0 +1,122 @@
+import React, { useEffect, useState } from 'react';
+import { X } from 'lucide-react';
+import type { DrawingElement } from '../../utils/geometry';
+import type { Layer } from '../../utils/layers';
+import { downloadBlob, exportFileName, noteToPdf, noteToPng, noteToSvg, PDF_PAGE_SIZES, type PdfPageSize } from '../../utils/exportNote';
+import { loadSetting, saveSetting } from '../../utils/settings';
+
+interface ExportPanelProps {
+    title: string;
+    elements: DrawingElement[];
+    layers: Layer[];
+    onClose: () => void;
+}
+
+type ExportFormat = 'png' | 'svg' | 'pdf';
+
+interface ExportOptions {
+    format: ExportFormat;
+    scale: number; // PNG pixels per canvas unit
+    transparent: boolean; // PNG / SVG background
+    pageSize: PdfPageSize;
+    landscape: boolean;
+    margin: number; // mm
+}
+
+const DEFAULT_EXPORT_OPTIONS: ExportOptions = { format: 'png', scale: 2, transparent: false, pageSize: 'a4', landscape: false, margin: 10 };
+
+export const ExportPanel: React.FC<ExportPanelProps> = ({ title, elements, layers, onClose }) => {
+    const [options, setOptions] = useState<ExportOptions>(() => ({ ...DEFAULT_EXPORT_OPTIONS, ...loadSetting<Partial<ExportOptions>>('exportOptions', {}) }));
+    const [busy, setBusy] = useState(false);
+
+    useEffect(() => saveSetting('exportOptions', options), [options]);
+
+    const set = <K extends keyof ExportOptions>(key: K, value: ExportOptions[K]) => setOptions(prev => ({ ...prev, [key]: value }));
+
+    const runExport = async () => {
+        // What the editor holds right now, saved or not
+        const source = { drawings: elements, layers };
+        const background = options.transparent ? null : '#ffffff';
+        setBusy(true);
+        try {
+            if (options.format === 'svg') {
+                const svg = await noteToSvg(source, background);
+                downloadBlob(new Blob([svg], { type: 'image/svg+xml' }), exportFileName(title, 'svg'));
+            } else if (options.format === 'png') {
+                downloadBlob(await noteToPng(source, options.scale, background), exportFileName(title, 'png'));
+            } else {
+                downloadBlob(await noteToPdf(source, options), exportFileName(title, 'pdf'));
+            }
+        } catch (e: any) {
+            console.error('Export failed:', e);
+            alert(`Export failed: ${e.message}`);
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    return (
+        <div className="absolute top-16 right-2 z-[55] w-64 bg-white border rounded shadow-lg text-xs">
+            <div className="flex items-center justify-between px-2 py-1 border-b bg-muted/20">
+                <span className="font-bold">Export</span>
+                <button onClick={onClose} className="p-1 hover:bg-muted rounded" title="Close"><X size={14} /></button>
+            </div>
+            <div className="flex flex-col gap-2 p-2">
+                <div className="flex gap-1">
+                    {(['png', 'svg', 'pdf'] as ExportFormat[]).map(format => (
+                        <button
+                            key={format}
+                            onClick={() => set('format', format)}
+                            className={`flex-1 py-1 border rounded uppercase ${options.format === format ? 'bg-primary/20 text-primary border-primary' : 'hover:bg-muted'}`}
+                        >
+                            {format}
+                        </button>
+                    ))}
+                </div>
+
+                {options.format === 'png' && (
+                    <label className="flex items-center justify-between">
+                        <span>Scale</span>
+                        <select value={options.scale} onChange={e => set('scale', Number(e.target.value))} className="h-7 border rounded">
+                            {[1, 2, 3, 4].map(s => <option key={s} value={s}>{s}x</option>)}
+                        </select>
+                    </label>
+                )}
+
+                {options.format !== 'pdf' && (
+                    <label className="flex items-center gap-1 select-none cursor-pointer">
+                        <input type="checkbox" checked={options.transparent} onChange={e => set('transparent', e.target.checked)} />
+                        <span>Transparent background</span>
+                    </label>
+                )}
+
+                {options.format === 'pdf' && (
+                    <>
+                        <label className="flex items-center justify-between">
+                            <span>Page</span>
+                            <select value={options.pageSize} onChange={e => set('pageSize', e.target.value as PdfPageSize)} className="h-7 border rounded">
+                                {PDF_PAGE_SIZES.map(s => <option key={s.value} value={s.value}>{s.label}</option>)}
+                            </select>
+                        </label>
+                        <label className="flex items-center gap-1 select-none cursor-pointer">
+                            <input type="checkbox" checked={options.landscape} onChange={e => set('landscape', e.target.checked)} />
+                            <span>Landscape</span>
+                        </label>
+                        <label className="flex items-center justify-between">
+                            <span>Margin (mm)</span>
+                            <input
+                                type="number" min={0} max={50} value={options.margin}
+                                onChange={e => set('margin', Math.max(0, Number(e.target.value) || 0))}
+                                className="w-16 h-7 border rounded px-1"
+                            />
+                        </label>
+                    </>
+                )}
+
+                <button onClick={runExport} disabled={busy || elements.length === 0} className="py-1.5 bg-primary text-primary-foreground rounded disabled:opacity-50">
+                    {busy ? 'Exporting...' : 'Download'}
+                </button>
+            </div>
+        </div>
+    );
+};
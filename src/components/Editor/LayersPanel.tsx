@@ -0,0 +1,92 @@
+import React from 'react';
+import { Eye, EyeOff, Lock, Unlock, ChevronUp, ChevronDown, Plus, Trash2, CornerDownRight } from 'lucide-react';
+import { v4 as uuidv4 } from 'uuid';
+import { cn } from '../../lib/utils';
+import type { Layer } from '../../utils/layers';
+
+interface LayersPanelProps {
+    layers: Layer[]; // Bottom first
+    activeLayerId: string;
+    elementCounts: Map<string, number>;
+    canMoveSelection: boolean;
+    onChange: (layers: Layer[]) => void;
+    onActivate: (id: string) => void;
+    onDelete: (id: string) => void;
+    onMoveSelection: (id: string) => void;
+}
+
+export const LayersPanel: React.FC<LayersPanelProps> = ({ layers, activeLayerId, elementCounts, canMoveSelection, onChange, onActivate, onDelete, onMoveSelection }) => {
+    const update = (id: string, patch: Partial<Layer>) => {
+        onChange(layers.map(l => l.id === id ? { ...l, ...patch } : l));
+    };
+
+    // `offset` is +1 to move up (towards the front), -1 to move down
+    const move = (index: number, offset: number) => {
+        const target = index + offset;
+        if (target < 0 || target >= layers.length) return;
+        const next = layers.slice();
+        [next[index], next[target]] = [next[target], next[index]];
+        onChange(next);
+    };
+
+    const addLayer = () => {
+        const layer: Layer = { id: uuidv4(), name: `Layer ${layers.length}`, visible: true, locked: false, opacity: 1 };
+        onChange([...layers, layer]);
+        onActivate(layer.id);
+    };
+
+    const rename = (layer: Layer) => {
+        const name = prompt("レイヤー名", layer.name);
+        if (name && name.trim()) update(layer.id, { name: name.trim() });
+    };
+
+    // Listed top first, like most drawing apps
+    const rows = layers.map((layer, index) => ({ layer, index })).reverse();
+
+    return (
+        <div className="absolute top-16 right-2 z-[55] w-64 bg-white border rounded shadow-lg text-xs">
+            <div className="flex items-center justify-between px-2 py-1 border-b bg-muted/20">
+                <span className="font-bold">Layers</span>
+                <button onClick={addLayer} className="p-1 hover:bg-muted rounded" title="Add layer"><Plus size={14} /></button>
+            </div>
+            {rows.map(({ layer, index }) => (
+                <div
+                    key={layer.id}
+                    onClick={() => onActivate(layer.id)}
+                    className={cn("flex flex-col gap-1 px-2 py-1 border-b last:border-b-0 cursor-pointer", layer.id === activeLayerId && "bg-primary/10")}
+                >
+                    <div className="flex items-center gap-1">
+                        <button onClick={e => { e.stopPropagation(); update(layer.id, { visible: !layer.visible }); }} className="p-0.5 hover:bg-muted rounded" title={layer.visible ? "Hide" : "Show"}>
+                            {layer.visible ? <Eye size={14} /> : <EyeOff size={14} className="text-gray-400" />}
+                        </button>
+                        <button onClick={e => { e.stopPropagation(); update(layer.id, { locked: !layer.locked }); }} className="p-0.5 hover:bg-muted rounded" title={layer.locked ? "Unlock" : "Lock"}>
+                            {layer.locked ? <Lock size={14} /> : <Unlock size={14} className="text-gray-400" />}
+                        </button>
+                        <span onDoubleClick={() => rename(layer)} className={cn("flex-1 truncate", layer.id === activeLayerId && "font-bold")} title="Double click to rename">
+                            {layer.name}
+                        </span>
+                        <span className="text-gray-400">{elementCounts.get(layer.id) || 0}</span>
+                        {canMoveSelection && (
+                            <button onClick={e => { e.stopPropagation(); onMoveSelection(layer.id); }} className="p-0.5 hover:bg-muted rounded" title="Move selection to this layer">
+                                <CornerDownRight size={14} />
+                            </button>
+                        )}
+                        <button onClick={e => { e.stopPropagation(); move(index, 1); }} disabled={index === layers.length - 1} className="p-0.5 hover:bg-muted rounded disabled:opacity-30" title="Move layer up"><ChevronUp size={14} /></button>
+                        <button onClick={e => { e.stopPropagation(); move(index, -1); }} disabled={index === 0} className="p-0.5 hover:bg-muted rounded disabled:opacity-30" title="Move layer down"><ChevronDown size={14} /></button>
+                        <button onClick={e => { e.stopPropagation(); onDelete(layer.id); }} disabled={layers.length <= 1} className="p-0.5 hover:bg-muted rounded text-red-600 disabled:opacity-30" title="Delete layer"><Trash2 size={14} /></button>
+                    </div>
+                    <input
+                        type="range"
+                        min="0"
+                        max="100"
+                        value={Math.round(layer.opacity * 100)}
+                        onChange={e => update(layer.id, { opacity: Number(e.target.value) / 100 })}
+                        onClick={e => e.stopPropagation()}
+                        className="w-full h-1 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+                        title={`Opacity ${Math.round(layer.opacity * 100)}%`}
+                    />
+                </div>
+            ))}
+        </div>
+    );
+};
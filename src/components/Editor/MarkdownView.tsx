@@ -0,0 +1,118 @@
+import React from 'react';
+import { cn } from '../../lib/utils';
+import { parseMarkdown, type MarkdownBlock, type MarkdownInline } from '../../utils/markdown';
+import { wikiLinkLabel } from '../../utils/wikiLinks';
+
+interface MarkdownViewProps {
+    content: string;
+    interactive: boolean; // Links and checkboxes respond (view mode); otherwise the view is a passive underlay
+    onWikiLink: (raw: string) => void; // Text between the brackets
+    onToggleTask: (line: number) => void;
+}
+
+export const MarkdownView: React.FC<MarkdownViewProps> = ({ content, interactive, onWikiLink, onToggleTask }) => {
+    // Keep clicks on links/checkboxes from reaching the canvas (pan, selection)
+    const stop = (e: React.PointerEvent) => e.stopPropagation();
+    const clickable = interactive ? "pointer-events-auto cursor-pointer" : "";
+
+    const renderInline = (nodes: MarkdownInline[]): React.ReactNode => nodes.map((node, i) => {
+        switch (node.type) {
+            case 'text': return <React.Fragment key={i}>{node.text}</React.Fragment>;
+            case 'code': return <code key={i} className="bg-gray-100 rounded px-1 text-[0.9em]">{node.text}</code>;
+            case 'strong': return <strong key={i}>{renderInline(node.children)}</strong>;
+            case 'em': return <em key={i}>{renderInline(node.children)}</em>;
+            case 'del': return <del key={i}>{renderInline(node.children)}</del>;
+            case 'link':
+                // Only web and mail links; anything else (javascript: etc.) stays plain text
+                if (!/^(https?:|mailto:)/i.test(node.href)) return <React.Fragment key={i}>{renderInline(node.children)}</React.Fragment>;
+                return (
+                    <a key={i} href={node.href} target="_blank" rel="noopener noreferrer" onPointerDown={stop} className={cn("text-blue-600 underline", clickable)}>
+                        {renderInline(node.children)}
+                    </a>
+                );
+            case 'wikilink':
+                return (
+                    <span
+                        key={i}
+                        onPointerDown={stop}
+                        onClick={e => { e.stopPropagation(); onWikiLink(node.raw); }}
+                        className={cn("text-blue-600 underline hover:text-blue-800", clickable)}
+                    >
+                        {wikiLinkLabel(node)}
+                    </span>
+                );
+        }
+    });
+
+    const HEADING_CLASSES = ['text-3xl', 'text-2xl', 'text-xl', 'text-lg', 'text-base', 'text-sm'];
+
+    const renderBlock = (block: MarkdownBlock, i: number): React.ReactNode => {
+        switch (block.type) {
+            case 'heading': {
+                const Tag = `h${block.level}` as 'h1';
+                return <Tag key={i} className={cn("font-bold font-sans my-2", HEADING_CLASSES[block.level - 1])}>{renderInline(block.children)}</Tag>;
+            }
+            case 'paragraph':
+                return <p key={i} className="my-2 whitespace-pre-wrap">{renderInline(block.children)}</p>;
+            case 'code':
+                return <pre key={i} className="my-2 p-3 bg-gray-100 rounded text-sm overflow-x-auto"><code>{block.text}</code></pre>;
+            case 'hr':
+                return <hr key={i} className="my-4 border-gray-300" />;
+            case 'quote':
+                return <blockquote key={i} className="my-2 pl-4 border-l-4 border-gray-300 text-gray-600">{block.children.map(renderBlock)}</blockquote>;
+            case 'list':
+                // Items stay flat; depth becomes indentation, so mixed and nested lists keep their source order
+                return (
+                    <div key={i} className="my-2">
+                        {block.items.map((item, j) => {
+                            // Numbering restarts under each parent item
+                            let number = 0;
+                            for (let k = j; k >= 0 && block.items[k].depth >= item.depth; k--) {
+                                if (block.items[k].depth === item.depth) number++;
+                            }
+                            return (
+                                <div key={item.line} className="flex items-start gap-2" style={{ paddingLeft: item.depth * 24 }}>
+                                    {item.checked !== undefined ? (
+                                        <input
+                                            type="checkbox"
+                                            checked={item.checked}
+                                            disabled={!interactive}
+                                            onPointerDown={stop}
+                                            onChange={() => onToggleTask(item.line)}
+                                            className={cn("mt-2", clickable)}
+                                        />
+                                    ) : (
+                                        <span className="select-none">{item.ordered ? `${number}.` : '•'}</span>
+                                    )}
+                                    <span className={cn(item.checked && "line-through text-gray-400")}>{renderInline(item.children)}</span>
+                                </div>
+                            );
+                        })}
+                    </div>
+                );
+            case 'table':
+                return (
+                    <table key={i} className="my-2 border-collapse text-base">
+                        <thead>
+                            <tr>
+                                {block.header.map((cell, c) => (
+                                    <th key={c} className="border border-gray-300 px-2 py-1 bg-gray-100" style={{ textAlign: block.align[c] ?? undefined }}>{renderInline(cell)}</th>
+                                ))}
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {block.rows.map((row, r) => (
+                                <tr key={r}>
+                                    {row.map((cell, c) => (
+                                        <td key={c} className="border border-gray-300 px-2 py-1" style={{ textAlign: block.align[c] ?? undefined }}>{renderInline(cell)}</td>
+                                    ))}
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                );
+        }
+    };
+
+    return <div className="whitespace-normal font-sans">{parseMarkdown(content).map(renderBlock)}</div>;
+};
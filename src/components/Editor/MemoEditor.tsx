@@ -1,41 +1,87 @@
-import React, { useRef, useEffect, useState } from 'react';
+import React, { useRef, useEffect, useState, useMemo } from 'react';
 import { db } from '../../db/db';
-import { recognizeShape, type DrawingElement, type Point, type TextElement, type Rectangle } from '../../utils/geometry';
+import { recognizeShape, isPointNearElement, pressureScale, splitStrokeByEraser, enclosedFraction, getElementsBounds, distance, getImageCorners, getShapePaths, type DrawingElement, type Point, type Shape, type Stroke, type TextElement, type Rectangle } from '../../utils/geometry';
+import { drawSmoothStroke, drawStroke, traceShape, LINK_COLOR } from '../../utils/render';
 import { Quadtree } from '../../utils/quadtree';
-import { recognizeTextFromCanvas } from '../../utils/ocr';
+import { translateElement, scaleElement, rotateElement } from '../../utils/transform';
+import { copyElements, getLocalClipboard, parseClipboardPayload, prepareForPaste } from '../../utils/clipboard';
+import { getCachedImage, saveImageBlob } from '../../utils/imageStore';
+import { renderPdfPages } from '../../utils/pdf';
+import { drawTextLines, getTextBox, layoutText, TEXT_LINE_HEIGHT } from '../../utils/textLayout';
+import { defaultLayers, groupByLayer, paintOrder, resolveLayerId, bringToFront, sendToBack, opacityChange, BACKGROUND_LAYER_ID, DEFAULT_LAYER_ID, type Layer } from '../../utils/layers';
+import { diffElements, applyOps, applyLayerOps, invertOps, MAX_HISTORY_ENTRIES, type HistoryEntry, type HistoryOp } from '../../utils/history';
+import { DEFAULT_OCR_LANGUAGE, imageToWorld, OCR_LANGUAGES, recognizeText, renderStrokesForOcr, type OcrLanguage } from '../../utils/ocr';
+import { requestInkIndex } from '../../utils/inkIndex';
 import { v4 as uuidv4 } from 'uuid';
-import { Undo, Eraser, Pen, Type, Save, ScanText, Eye, Link as LinkIcon, MousePointer2 } from 'lucide-react';
+import { Undo, Redo, Eraser, Pen, Highlighter, SquareDashed, Lasso, Lock, Unlock, Copy, Scissors, CopyPlus, ClipboardPaste, ImagePlus, Camera, PanelRight, BringToFront, SendToBack, Layers as LayersIcon, Waypoints, Type, Save, ScanText, Eye, Link as LinkIcon, MousePointer2, Download } from 'lucide-react';
 import { cn } from '../../lib/utils';
+import { loadSetting, saveSetting } from '../../utils/settings';
+import { TextStyleBar, DEFAULT_TEXT_STYLE, textStyleFields, textStyleOf, type TextStyle } from './TextStyleBar';
+import { PenPalette, DEFAULT_PEN_STYLE, DEFAULT_HIGHLIGHTER_STYLE, type PenStyle } from './PenPalette';
+import { LayersPanel } from './LayersPanel';
+import { BacklinksPanel } from './BacklinksPanel';
+import { ExportPanel } from './ExportPanel';
+import { MarkdownView } from './MarkdownView';
+import { NoteTextPanel } from './NoteTextPanel';
+import { toggleTask } from '../../utils/markdown';
+import { findWikiLinks, noteLink, parseWikiLink, wikiLinkLabel } from '../../utils/wikiLinks';
 // import { useLongPress } from 'use-long-press'; // Removed unused
 
+type GizmoHandle = 'nw' | 'n' | 'ne' | 'e' | 'se' | 's' | 'sw' | 'w' | 'rotate';
+const HANDLE_SIZE = 10; // Screen px
+const ROTATE_HANDLE_OFFSET = 28; // Screen px above the selection
+
 interface MemoEditorProps {
     noteId: string;
     onBack: () => void;
     onLinkClick: (title: string, targetFolderId?: string | null) => Promise<'OPEN' | 'DELETE' | 'CANCEL'>;
     externalTitle?: string;
+    focusElementIds?: string[]; // Centered and selected once the note has loaded
 }
 
-export const MemoEditor: React.FC<MemoEditorProps> = ({ noteId, onBack, onLinkClick, externalTitle }) => {
-    const [mode, setMode] = useState<'text' | 'pen' | 'eraser' | 'view' | 'select'>('pen');
+export const MemoEditor: React.FC<MemoEditorProps> = ({ noteId, onBack, onLinkClick, externalTitle, focusElementIds }) => {
+    const [mode, setMode] = useState<'text' | 'pen' | 'highlighter' | 'eraser' | 'view' | 'select'>('pen');
     const [noteContent, setNoteContent] = useState('');
     const [elements, setElements] = useState<DrawingElement[]>([]);
+    const [layers, setLayers] = useState<Layer[]>(defaultLayers);
+    const [activeLayerId, setActiveLayerId] = useState<string>(DEFAULT_LAYER_ID);
+    const [showLayers, setShowLayers] = useState(false);
+    const [showBacklinks, setShowBacklinks] = useState(false);
+    const [showExport, setShowExport] = useState(false);
     const [currentFolderId, setCurrentFolderId] = useState<string | null>('root');
 
     // Selection State
     const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
     const [selectionBox, setSelectionBox] = useState<{ start: Point, end: Point } | null>(null);
+    const [selectTool, setSelectTool] = useState<'box' | 'lasso'>(() => loadSetting('selectTool', 'box'));
+    const [lassoPath, setLassoPath] = useState<Point[] | null>(null);
+    // Selection kept when a box/lasso starts with Shift held (additive selection)
+    const selectionBaseRef = useRef<Set<string>>(new Set());
 
     const [autoShape, setAutoShape] = useState(true);
-    const [isProcessingOCR, setIsProcessingOCR] = useState(false);
+    // Last auto-corrected shape, offered back as the original stroke for a few seconds
+    const [shapeFallback, setShapeFallback] = useState<{ shapeId: string, stroke: Stroke } | null>(null);
+    const [ocrStatus, setOcrStatus] = useState<string | null>(null); // Progress while OCR runs
+    const [ocrLanguage, setOcrLanguage] = useState<OcrLanguage>(() => loadSetting('ocrLanguage', DEFAULT_OCR_LANGUAGE));
     const [title, setTitle] = useState('');
 
     // Text Input State
-    const [textInput, setTextInput] = useState<{ x: number, y: number, text: string, id?: string } | null>(null);
+    // Open text box; width is set once the box wraps (resized by the user or edited from a wrapping element)
+    const [textInput, setTextInput] = useState<{ x: number, y: number, text: string, id?: string, width?: number, style: TextStyle } | null>(null);
 
-    // New state for widths (Must be declared before use)
-    const [penWidth, setPenWidth] = useState(3);
+    // Pen styles (Must be declared before use), remembered across sessions
+    const [penStyle, setPenStyle] = useState<PenStyle>(() => loadSetting('penStyle', DEFAULT_PEN_STYLE));
+    const [highlighterStyle, setHighlighterStyle] = useState<PenStyle>(() => loadSetting('highlighterStyle', DEFAULT_HIGHLIGHTER_STYLE));
+    const activeStyle = mode === 'highlighter' ? highlighterStyle : penStyle;
     const [eraserWidth, setEraserWidth] = useState(20);
-    const [fontSize, setFontSize] = useState(24);
+    // 'stroke' removes whole elements, 'precise' only cuts away the ink under the eraser
+    const [eraserMode, setEraserMode] = useState<'stroke' | 'precise'>(() => loadSetting('eraserMode', 'stroke'));
+    // Narrow the line when the pen moves fast (like a real nib)
+    const [velocityThinning, setVelocityThinning] = useState<boolean>(() => loadSetting('velocityThinning', false));
+    const strokeThinning = mode === 'pen' && velocityThinning ? 0.6 : 0;
+    const [textStyle, setTextStyle] = useState<TextStyle>(() => loadSetting('textStyle', DEFAULT_TEXT_STYLE));
+    const [markdownContent, setMarkdownContent] = useState<boolean>(() => loadSetting('markdownContent', false));
+    const [textPanel, setTextPanel] = useState<'hidden' | 'split' | 'full'>(() => loadSetting('textPanel', 'hidden'));
 
     const canvasRef = useRef<HTMLCanvasElement>(null);
     const [transform, setTransform] = useState({ x: 0, y: 0, scale: 1 });
@@ -54,58 +100,150 @@ export const MemoEditor: React.FC<MemoEditorProps> = ({ noteId, onBack, onLinkCl
     const isDraggingSelection = useRef(false);
     const lastDragPos = useRef<{ x: number, y: number } | null>(null);
 
+    // Active resize/rotate drag: transforms are recomputed from the originals on every move
+    const transformSession = useRef<{ handle: GizmoHandle, bounds: Rectangle, start: Point, originals: Map<string, DrawingElement> } | null>(null);
+    const [aspectLock, setAspectLock] = useState(false);
+
+    // Long press (touch) toggles an element in/out of the selection
+    const longPressTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+    const longPressOrigin = useRef<{ x: number, y: number } | null>(null);
+
     // Force render helper
     const [, setTick] = useState(0);
+    // Bumped when an image finishes decoding so the canvas redraws
+    const [imageVersion, setImageVersion] = useState(0);
+
+    // Last pointer position in world coordinates (paste target)
+    const lastPointerRef = useRef<Point | null>(null);
+
+    // Image / PDF insertion
+    const imageInputRef = useRef<HTMLInputElement>(null);
+    const cameraInputRef = useRef<HTMLInputElement>(null);
+    const [importStatus, setImportStatus] = useState<string | null>(null);
 
     const initialPinchDist = useRef<number>(0);
     const initialScale = useRef<number>(1);
     const lastCenter = useRef<{ x: number, y: number } | null>(null);
 
     // History (Undo/Redo)
-    const [history, setHistory] = useState<DrawingElement[][]>([]);
+    // Refs so async callers (link deletion, OCR) never push onto a stale stack
+    const historyRef = useRef<{ entries: HistoryEntry[], step: number }>({ entries: [], step: 0 });
+    // Elements as of the last history point; diffs are taken against this, not the live (dragged) state
+    const committedElementsRef = useRef<DrawingElement[]>([]);
+    const historySaveTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
     const [historyStep, setHistoryStep] = useState(0);
+    const [historyLength, setHistoryLength] = useState(0);
 
     // Initial load handling
     useEffect(() => {
-        db.notes.get(noteId).then(n => {
+        Promise.all([db.notes.get(noteId), db.history.get(noteId)]).then(([n, saved]) => {
             if (n) {
                 setTitle(n.title || '');
                 setNoteContent(n.content || '');
-                if (n.drawings) {
-                    setElements(n.drawings);
-                    setHistory([n.drawings]); // Initial history state
-                    setHistoryStep(0);
-                } else {
-                    setHistory([[]]);
-                    setHistoryStep(0);
-                }
+                const drawings = n.drawings || [];
+                setElements(drawings);
+                committedElementsRef.current = drawings;
+                const noteLayers = n.layers && n.layers.length > 0 ? n.layers : defaultLayers();
+                setLayers(noteLayers);
+                setActiveLayerId(noteLayers.some(l => l.id === DEFAULT_LAYER_ID) ? DEFAULT_LAYER_ID : noteLayers[noteLayers.length - 1].id);
+                historyRef.current = saved ? { entries: saved.entries, step: saved.step } : { entries: [], step: 0 };
+                setHistoryStep(historyRef.current.step);
+                setHistoryLength(historyRef.current.entries.length);
                 setCurrentFolderId(n.folderId || 'root');
             }
         });
     }, [noteId]);
 
-    // Push to history
-    const pushHistory = (newElements: DrawingElement[]) => {
-        const newHistory = history.slice(0, historyStep + 1);
-        newHistory.push(newElements);
-        // Limit history size if needed (e.g. 50 steps)
-        if (newHistory.length > 50) newHistory.shift();
+    const persistHistory = () => {
+        if (historySaveTimer.current) clearTimeout(historySaveTimer.current);
+        historySaveTimer.current = null;
+        const { entries, step } = historyRef.current;
+        db.history.put({ noteId, entries, step, updatedAt: Date.now() });
+    };
+
+    const setHistory = (entries: HistoryEntry[], step: number) => {
+        historyRef.current = { entries, step };
+        setHistoryStep(step);
+        setHistoryLength(entries.length);
+        // Debounced: a burst of edits only rewrites the stored stack once
+        if (historySaveTimer.current) clearTimeout(historySaveTimer.current);
+        historySaveTimer.current = setTimeout(persistHistory, 1000);
+    };
 
-        setHistory(newHistory);
-        setHistoryStep(newHistory.length - 1);
+    // Flush pending history on close
+    useEffect(() => {
+        return () => {
+            if (historySaveTimer.current) persistHistory();
+        };
+    }, [noteId]);
+
+    // Push to history; `layerChange` records a layer list change made in the same step
+    const pushHistory = (newElements: DrawingElement[], layerChange?: { before: Layer[], after: Layer[] }) => {
+        const ops: HistoryOp[] = diffElements(committedElementsRef.current, newElements);
+        if (layerChange) {
+            ops.push({ type: 'layers', ...layerChange });
+            setLayers(layerChange.after);
+        }
+        committedElementsRef.current = newElements;
         setElements(newElements);
+        if (ops.length === 0) return;
+
+        const { entries, step } = historyRef.current;
+        const newEntries = entries.slice(0, step);
+        newEntries.push({ ops, at: Date.now() });
+        if (newEntries.length > MAX_HISTORY_ENTRIES) newEntries.shift();
+        setHistory(newEntries, newEntries.length);
     };
 
-    const handleUndo = () => {
-        if (historyStep > 0) {
-            const prevStep = historyStep - 1;
-            setHistoryStep(prevStep);
-            setElements(history[prevStep]);
+    const applyHistoryOps = (ops: HistoryOp[]) => {
+        const restored = applyOps(committedElementsRef.current, ops);
+        committedElementsRef.current = restored;
+        setElements(restored);
+        const restoredLayers = applyLayerOps(ops);
+        if (restoredLayers) {
+            setLayers(restoredLayers);
+            setActiveLayerId(id => restoredLayers.some(l => l.id === id) ? id : restoredLayers[restoredLayers.length - 1].id);
         }
     };
 
-    // handleRedo removed as it is currently unused in UI
+    const handleUndo = () => {
+        const { entries, step } = historyRef.current;
+        if (step <= 0) return;
+        applyHistoryOps(invertOps(entries[step - 1].ops));
+        setHistory(entries, step - 1);
+    };
 
+    const handleRedo = () => {
+        const { entries, step } = historyRef.current;
+        if (step >= entries.length) return;
+        applyHistoryOps(entries[step].ops);
+        setHistory(entries, step + 1);
+    };
+
+    // Keyboard shortcuts: Ctrl+Z undo, Ctrl+Shift+Z / Ctrl+Y redo
+    useEffect(() => {
+        const onKeyDown = (e: KeyboardEvent) => {
+            const target = e.target as HTMLElement | null;
+            if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+            if (!(e.ctrlKey || e.metaKey)) return;
+
+            const key = e.key.toLowerCase();
+            if (selectedIds.size > 0 && (key === 'c' || key === 'x' || key === 'd')) {
+                e.preventDefault();
+                if (key === 'c') handleCopy();
+                else if (key === 'x') handleCut();
+                else handleDuplicate();
+            } else if (key === 'z' && !e.shiftKey) {
+                e.preventDefault();
+                handleUndo();
+            } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+                e.preventDefault();
+                handleRedo();
+            }
+        };
+        window.addEventListener('keydown', onKeyDown);
+        return () => window.removeEventListener('keydown', onKeyDown);
+    });
 
     useEffect(() => {
         if (externalTitle && externalTitle !== title) {
@@ -118,6 +256,7 @@ export const MemoEditor: React.FC<MemoEditorProps> = ({ noteId, onBack, onLinkCl
             title,
             content: noteContent,
             drawings: elements,
+            layers,
             updatedAt: Date.now()
         });
     };
@@ -128,7 +267,33 @@ export const MemoEditor: React.FC<MemoEditorProps> = ({ noteId, onBack, onLinkCl
             clearInterval(timer);
             saveNote();
         };
-    }, [noteContent, elements, title]);
+    }, [noteContent, elements, layers, title]);
+
+    // Recognize handwriting for search once the drawing settles (after autosave has stored it)
+    useEffect(() => {
+        requestInkIndex(noteId);
+    }, [elements]);
+
+    useEffect(() => saveSetting('penStyle', penStyle), [penStyle]);
+    useEffect(() => saveSetting('highlighterStyle', highlighterStyle), [highlighterStyle]);
+    useEffect(() => saveSetting('velocityThinning', velocityThinning), [velocityThinning]);
+    useEffect(() => saveSetting('eraserMode', eraserMode), [eraserMode]);
+    useEffect(() => saveSetting('selectTool', selectTool), [selectTool]);
+    useEffect(() => saveSetting('textStyle', textStyle), [textStyle]);
+    useEffect(() => saveSetting('markdownContent', markdownContent), [markdownContent]);
+    useEffect(() => saveSetting('ocrLanguage', ocrLanguage), [ocrLanguage]);
+    useEffect(() => saveSetting('textPanel', textPanel), [textPanel]);
+
+    const setActiveStyle = (style: PenStyle) => {
+        if (mode === 'highlighter') setHighlighterStyle(style);
+        else setPenStyle(style);
+    };
+
+    // Text toolbar edits the open box if there is one, and becomes the style for new text either way
+    const updateTextStyle = (style: TextStyle) => {
+        setTextStyle(style);
+        if (textInput) setTextInput({ ...textInput, style });
+    };
 
     useEffect(() => {
         if (mode !== 'select') {
@@ -136,18 +301,66 @@ export const MemoEditor: React.FC<MemoEditorProps> = ({ noteId, onBack, onLinkCl
         }
     }, [mode]);
 
+    // Dismiss the "keep original stroke" toast after a short preview
+    useEffect(() => {
+        if (!shapeFallback) return;
+        const timer = setTimeout(() => setShapeFallback(null), 4000);
+        return () => clearTimeout(timer);
+    }, [shapeFallback]);
+
+    // Elements by layer, in paint order; hidden layers are left out
+    const layerGroups = useMemo(() => groupByLayer(elements, layers), [elements, layers]);
+    const shownElements = useMemo(() => layerGroups.flatMap(g => g.elements), [layerGroups]);
+    // What the pointer can hit: shown and not on a locked layer
+    const editableElements = useMemo(() => layerGroups.filter(g => !g.layer.locked).flatMap(g => g.elements), [layerGroups]);
+    const editableIds = useMemo(() => new Set(editableElements.map(el => el.id)), [editableElements]);
+    const activeLayer = layers.find(l => l.id === activeLayerId);
+
+    // Hiding or locking a layer drops its elements from the selection
+    useEffect(() => {
+        setSelectedIds(prev => {
+            const next = new Set([...prev].filter(id => editableIds.has(id)));
+            return next.size === prev.size ? prev : next;
+        });
+    }, [layers]);
+
     const quadtreeRef = useRef<Quadtree>(new Quadtree({ x: -500000, y: -500000, width: 1000000, height: 1000000 }));
     const [viewportSize, setViewportSize] = useState({ width: window.innerWidth, height: window.innerHeight });
 
     // Update Viewport Size on Resize
+    // Follows the canvas container, which shrinks when the text panel is open
     useEffect(() => {
-        const handleResize = () => {
-            setViewportSize({ width: window.innerWidth, height: window.innerHeight });
-        };
-        window.addEventListener('resize', handleResize);
-        return () => window.removeEventListener('resize', handleResize);
+        const container = containerRef.current;
+        if (!container) return;
+        const observer = new ResizeObserver(() => {
+            if (container.clientWidth > 0 && container.clientHeight > 0) {
+                setViewportSize({ width: container.clientWidth, height: container.clientHeight });
+            }
+        });
+        observer.observe(container);
+        return () => observer.disconnect();
     }, []);
 
+    // Bring the requested elements (e.g. a search hit) into the middle of the view
+    const focusedElementsRef = useRef<string[] | undefined>(undefined);
+    useEffect(() => {
+        if (!focusElementIds || focusedElementsRef.current === focusElementIds) return;
+        const ids = new Set(focusElementIds);
+        const b = getElementsBounds(elements.filter(el => ids.has(el.id)));
+        if (!b) return;
+        focusedElementsRef.current = focusElementIds;
+        setTransform(t => ({
+            ...t,
+            x: viewportSize.width / 2 - (b.x + b.width / 2) * t.scale,
+            y: viewportSize.height / 2 - (b.y + b.height / 2) * t.scale
+        }));
+        const selectable = focusElementIds.filter(id => editableIds.has(id));
+        if (selectable.length > 0) {
+            setMode('select');
+            setSelectedIds(new Set(selectable));
+        }
+    }, [focusElementIds, elements, viewportSize]);
+
     // Rebuild Quadtree when elements change
     useEffect(() => {
         quadtreeRef.current.clear();
@@ -160,19 +373,29 @@ export const MemoEditor: React.FC<MemoEditorProps> = ({ noteId, onBack, onLinkCl
     // Removed bufferCanvasRef, drawing directly to view canvas now based on viewport
 
 
-    const drawSmoothStroke = (ctx: CanvasRenderingContext2D, points: Point[]) => {
-        if (points.length < 2) return;
-        ctx.beginPath();
-        ctx.moveTo(points[0].x, points[0].y);
-        for (let i = 1; i < points.length - 1; i++) {
-            const p1 = points[i];
-            const p2 = points[i + 1];
-            const midX = (p1.x + p2.x) / 2;
-            const midY = (p1.y + p2.y) / 2;
-            ctx.quadraticCurveTo(p1.x, p1.y, midX, midY);
+    // Selection transform gizmo (resize / rotate handles), in world coordinates
+    const getGizmo = () => {
+        if (selectedIds.size === 0) return null;
+        const bounds = getElementsBounds(elements.filter(el => selectedIds.has(el.id)));
+        if (!bounds) return null;
+        const { x, y, width: w, height: h } = bounds;
+        const handles: Record<GizmoHandle, Point> = {
+            nw: { x, y }, n: { x: x + w / 2, y }, ne: { x: x + w, y },
+            e: { x: x + w, y: y + h / 2 }, se: { x: x + w, y: y + h },
+            s: { x: x + w / 2, y: y + h }, sw: { x, y: y + h }, w: { x, y: y + h / 2 },
+            rotate: { x: x + w / 2, y: y - ROTATE_HANDLE_OFFSET / transform.scale }
+        };
+        return { bounds, handles };
+    };
+
+    const hitGizmoHandle = (pt: Point): GizmoHandle | null => {
+        const gizmo = getGizmo();
+        if (!gizmo) return null;
+        const radius = HANDLE_SIZE / transform.scale;
+        for (const key of Object.keys(gizmo.handles) as GizmoHandle[]) {
+            if (distance(pt, gizmo.handles[key]) <= radius) return key;
         }
-        ctx.lineTo(points[points.length - 1].x, points[points.length - 1].y);
-        ctx.stroke();
+        return null;
     };
 
     // Optimized Render Logic
@@ -220,93 +443,159 @@ export const MemoEditor: React.FC<MemoEditorProps> = ({ noteId, onBack, onLinkCl
         // If we want correct Z-order, we should filter the main list against the Set returned by Quadtree.
         const visibleSet = new Set(visibleElements);
 
-        elements.forEach(el => {
+        // Layers paint bottom to top
+        paintOrder(elements, layers).forEach(({ el, layerOpacity }) => {
             if (!visibleSet.has(el)) return; // Skip if not in visible set
 
             const isSelected = selectedIds.has(el.id);
-            ctx.strokeStyle = isSelected ? '#3b82f6' : el.color;
-            ctx.fillStyle = el.color; // For text
-            const elWidth = el.type === 'text' ? 0 : el.width;
+            ctx.globalAlpha = layerOpacity * (el.type !== 'text' && el.type !== 'image' ? (el.opacity ?? 1) : 1);
+            const color = el.type === 'image' ? '#000000' : el.color;
+            ctx.strokeStyle = isSelected ? '#3b82f6' : color;
+            ctx.fillStyle = color; // For text
+            const elWidth = el.type === 'text' || el.type === 'image' ? 0 : el.width;
             // Highlight selected
             ctx.lineWidth = isSelected ? (elWidth + 2) : elWidth;
             if (isSelected) { ctx.shadowBlur = 5; ctx.shadowColor = '#3b82f6'; }
             else { ctx.shadowBlur = 0; }
 
             if (el.type === 'stroke') {
-                drawSmoothStroke(ctx, el.points);
-            } else if (el.type === 'line') {
-                const { start, end } = el.params;
-                ctx.beginPath();
-                ctx.moveTo(start.x, start.y);
-                ctx.lineTo(end.x, end.y);
-                ctx.stroke();
-            } else if (el.type === 'circle') {
-                const { x, y, radius } = el.params;
-                ctx.beginPath();
-                ctx.arc(x, y, radius, 0, Math.PI * 2);
-                ctx.stroke();
-            } else if (el.type === 'rect') {
-                const { x, y, width, height } = el.params;
-                ctx.strokeRect(x, y, width, height);
+                drawStroke(ctx, el);
             } else if (el.type === 'text') {
-                ctx.font = `${el.fontSize}px sans-serif`;
-                ctx.fillStyle = 'black';
-                ctx.fillText(el.content, el.x, el.y);
+                // Draw in the text's own frame so rotation applies
+                ctx.save();
+                ctx.translate(el.x, el.y);
+                if (el.rotation) ctx.rotate(el.rotation);
+                drawTextLines(ctx, el);
 
                 if (isSelected) {
-                    const metrics = ctx.measureText(el.content);
-                    const h = el.fontSize;
-                    ctx.strokeRect(el.x - 2, el.y - h, metrics.width + 4, h + 4);
+                    const box = getTextBox(el);
+                    ctx.strokeRect(-2, -el.fontSize - 2, box.width + 4, box.height + 4);
+                }
+                ctx.restore();
+            } else if (el.type === 'image') {
+                const img = getCachedImage(el.imageId, () => setImageVersion(v => v + 1));
+                ctx.save();
+                ctx.translate(el.x + el.width / 2, el.y + el.height / 2);
+                if (el.rotation) ctx.rotate(el.rotation);
+                if (img) {
+                    ctx.drawImage(img, -el.width / 2, -el.height / 2, el.width, el.height);
+                } else {
+                    // Placeholder while the blob decodes
+                    ctx.fillStyle = '#e5e7eb';
+                    ctx.fillRect(-el.width / 2, -el.height / 2, el.width, el.height);
+                }
+                if (isSelected) {
+                    ctx.lineWidth = 2 / transform.scale;
+                    ctx.strokeRect(-el.width / 2, -el.height / 2, el.width, el.height);
                 }
+                ctx.restore();
+            } else {
+                traceShape(ctx, el);
+                ctx.stroke();
             }
 
             // Link Highlighting Logic Reuse (omitted here for brevity, included in next chunk or keeping simplistic?)
             // I should duplicate the logic or ensure it's preserved.
             // Copied link logic below:
             if (el.link && mode === 'view') {
-                const LINK_COLOR = '#0ea5e9';
                 if (el.type === 'text') {
+                    ctx.save();
+                    ctx.translate(el.x, el.y);
+                    if (el.rotation) ctx.rotate(el.rotation);
                     ctx.fillStyle = LINK_COLOR;
-                    ctx.fillText(el.content, el.x, el.y);
-                    const metrics = ctx.measureText(el.content);
+                    drawTextLines(ctx, el, true);
+                    ctx.restore();
+                } else if (el.type === 'image') {
                     ctx.beginPath();
-                    ctx.moveTo(el.x, el.y + 4);
-                    ctx.lineTo(el.x + metrics.width, el.y + 4);
+                    getImageCorners(el).forEach((c, i) => i === 0 ? ctx.moveTo(c.x, c.y) : ctx.lineTo(c.x, c.y));
+                    ctx.closePath();
                     ctx.strokeStyle = LINK_COLOR;
-                    ctx.lineWidth = 2;
+                    ctx.lineWidth = 3 / transform.scale;
                     ctx.stroke();
-                } else if (el.type === 'line') {
-                    const { start, end } = el.params;
-                    ctx.beginPath();
-                    ctx.moveTo(start.x, start.y);
-                    ctx.lineTo(end.x, end.y);
+                } else if (el.type !== 'stroke') {
+                    traceShape(ctx, el);
                     ctx.strokeStyle = LINK_COLOR;
                     ctx.stroke();
-                } else if (el.type === 'circle') {
-                    const { x, y, radius } = el.params;
-                    ctx.beginPath();
-                    ctx.arc(x, y, radius, 0, Math.PI * 2);
-                    ctx.strokeStyle = LINK_COLOR;
-                    ctx.stroke();
-                } else if (el.type === 'rect') {
-                    const { x, y, width, height } = el.params;
-                    ctx.strokeStyle = LINK_COLOR;
-                    ctx.strokeRect(x, y, width, height);
                 }
             }
         });
+        ctx.globalAlpha = 1;
+
+        // Transform gizmo around the selection
+        const gizmo = mode === 'select' ? getGizmo() : null;
+        if (gizmo) {
+            const { bounds, handles } = gizmo;
+            const handleSize = HANDLE_SIZE / transform.scale;
+            ctx.save();
+            ctx.globalAlpha = 1;
+            ctx.shadowBlur = 0;
+            ctx.strokeStyle = '#3b82f6';
+            ctx.lineWidth = 1 / transform.scale;
+            ctx.setLineDash([4 / transform.scale, 3 / transform.scale]);
+            ctx.strokeRect(bounds.x, bounds.y, bounds.width, bounds.height);
+            ctx.setLineDash([]);
+            ctx.beginPath();
+            ctx.moveTo(bounds.x + bounds.width / 2, bounds.y);
+            ctx.lineTo(handles.rotate.x, handles.rotate.y);
+            ctx.stroke();
+            ctx.fillStyle = 'white';
+            (Object.keys(handles) as GizmoHandle[]).forEach(key => {
+                const h = handles[key];
+                ctx.beginPath();
+                if (key === 'rotate') ctx.arc(h.x, h.y, handleSize / 2, 0, Math.PI * 2);
+                else ctx.rect(h.x - handleSize / 2, h.y - handleSize / 2, handleSize, handleSize);
+                ctx.fill();
+                ctx.stroke();
+            });
+            ctx.restore();
+        }
+
+        // Selection marquee / lasso
+        if (selectionBox || lassoPath) {
+            ctx.save();
+            ctx.globalAlpha = 1;
+            ctx.shadowBlur = 0;
+            ctx.strokeStyle = '#3b82f6';
+            ctx.fillStyle = 'rgba(59,130,246,0.08)';
+            ctx.lineWidth = 1 / transform.scale;
+            ctx.setLineDash([6 / transform.scale, 4 / transform.scale]);
+            ctx.beginPath();
+            if (selectionBox) {
+                const { start, end } = selectionBox;
+                ctx.rect(Math.min(start.x, end.x), Math.min(start.y, end.y), Math.abs(end.x - start.x), Math.abs(end.y - start.y));
+            } else if (lassoPath && lassoPath.length > 1) {
+                lassoPath.forEach((p, i) => i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y));
+                ctx.closePath();
+            }
+            ctx.fill();
+            ctx.stroke();
+            ctx.restore();
+        }
+
+        // Ghost of the original stroke while the shape correction can still be reverted
+        if (shapeFallback) {
+            ctx.save();
+            ctx.globalAlpha = 0.25;
+            ctx.strokeStyle = shapeFallback.stroke.color;
+            ctx.lineWidth = shapeFallback.stroke.width;
+            ctx.shadowBlur = 0;
+            drawStroke(ctx, shapeFallback.stroke);
+            ctx.restore();
+        }
 
         // Draw Current Stroke (Being drawn right now) - bypassing Quadtree
         if (currentStrokeRef.current.length > 0) {
-            ctx.strokeStyle = (mode === 'eraser') ? 'rgba(255,200,200,0.5)' : 'black';
-            ctx.lineWidth = (mode === 'eraser') ? eraserWidth : penWidth;
+            ctx.strokeStyle = (mode === 'eraser') ? 'rgba(255,200,200,0.5)' : activeStyle.color;
+            ctx.lineWidth = (mode === 'eraser') ? eraserWidth : activeStyle.width;
+            ctx.globalAlpha = (mode === 'eraser') ? 1 : activeStyle.opacity;
             ctx.shadowBlur = 0;
-            drawSmoothStroke(ctx, currentStrokeRef.current);
+            if (mode === 'eraser') drawSmoothStroke(ctx, currentStrokeRef.current);
+            else drawStroke(ctx, { points: currentStrokeRef.current, width: activeStyle.width, thinning: strokeThinning });
         }
 
         ctx.restore();
 
-    }, [elements, transform, viewportSize, selectedIds, mode, penWidth, eraserWidth]); // Dependencies
+    }, [elements, layers, layerGroups, transform, viewportSize, selectedIds, mode, activeStyle, eraserWidth, strokeThinning, shapeFallback, selectionBox, lassoPath, imageVersion]); // Dependencies
 
     // Removed the "1. Init/Update Buffer" useEffect completely as it is replaced by the render loop above.
 
@@ -324,6 +613,19 @@ export const MemoEditor: React.FC<MemoEditorProps> = ({ noteId, onBack, onLinkCl
         return { x, y };
     };
 
+    // Stroke point with whatever stylus data the event carries
+    const getStrokePoint = (e: React.PointerEvent): Point => {
+        const pt: Point = { ...getLocalPoint(e.clientX, e.clientY), t: e.timeStamp };
+        if (e.pointerType === 'pen') {
+            pt.pressure = e.pressure;
+            if (e.tiltX || e.tiltY) {
+                pt.tiltX = e.tiltX;
+                pt.tiltY = e.tiltY;
+            }
+        }
+        return pt;
+    };
+
     const dist = (p1: { x: number, y: number }, p2: { x: number, y: number }) => {
         return Math.sqrt(Math.pow(p1.x - p2.x, 2) + Math.pow(p1.y - p2.y, 2));
     };
@@ -332,67 +634,6 @@ export const MemoEditor: React.FC<MemoEditorProps> = ({ noteId, onBack, onLinkCl
         return { x: (p1.x + p2.x) / 2, y: (p1.y + p2.y) / 2 };
     };
 
-    const distanceToSegment = (p: Point, v: Point, w: Point) => {
-        const l2 = Math.pow(v.x - w.x, 2) + Math.pow(v.y - w.y, 2);
-        if (l2 === 0) return Math.sqrt(Math.pow(p.x - v.x, 2) + Math.pow(p.y - v.y, 2));
-        let t = ((p.x - v.x) * (w.x - v.x) + (p.y - v.y) * (w.y - v.y)) / l2;
-        t = Math.max(0, Math.min(1, t));
-        return Math.sqrt(Math.pow(p.x - (v.x + t * (w.x - v.x)), 2) + Math.pow(p.y - (v.y + t * (w.y - v.y)), 2));
-    };
-
-    const isPointNearElement = (point: Point, el: DrawingElement, threshold: number = 10): boolean => {
-        if (el.type === 'stroke') {
-            const t = threshold + el.width / 2;
-            let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
-            for (const p of el.points) {
-                minX = Math.min(minX, p.x); maxX = Math.max(maxX, p.x);
-                minY = Math.min(minY, p.y); maxY = Math.max(maxY, p.y);
-            }
-            if (point.x < minX - t || point.x > maxX + t || point.y < minY - t || point.y > maxY + t) return false;
-            for (let i = 0; i < el.points.length - 1; i++) {
-                if (distanceToSegment(point, el.points[i], el.points[i + 1]) < t) return true;
-            }
-            return false;
-        }
-
-        if (el.type === 'line') {
-            const t = threshold + el.width / 2;
-            const { start, end } = el.params;
-            return distanceToSegment(point, start, end) < t;
-        }
-
-        if (el.type === 'circle') {
-            const t = threshold + el.width / 2;
-            const { x, y, radius } = el.params;
-            const d = Math.sqrt(Math.pow(point.x - x, 2) + Math.pow(point.y - y, 2));
-            return Math.abs(d - radius) < t;
-        }
-
-        if (el.type === 'rect') {
-            const t = threshold + el.width / 2;
-            const { x, y, width, height } = el.params;
-            const p1 = { x, y };
-            const p2 = { x: x + width, y };
-            const p3 = { x: x + width, y: y + height };
-            const p4 = { x, y: y + height };
-            return distanceToSegment(point, p1, p2) < t ||
-                distanceToSegment(point, p2, p3) < t ||
-                distanceToSegment(point, p3, p4) < t ||
-                distanceToSegment(point, p4, p1) < t;
-        }
-
-        if (el.type === 'text') {
-            // Check bounding box
-            // Approximate width
-            const w = el.content.length * el.fontSize * 0.6;
-            const h = el.fontSize;
-            // Hit test: origin is bottom-left
-            return point.x >= el.x && point.x <= el.x + w && point.y >= el.y - h && point.y <= el.y + 10;
-        }
-
-        return false;
-    };
-
     const isElementInBox = (el: DrawingElement, box: { start: Point, end: Point }) => {
         const x1 = Math.min(box.start.x, box.end.x);
         const x2 = Math.max(box.start.x, box.end.x);
@@ -419,10 +660,14 @@ export const MemoEditor: React.FC<MemoEditorProps> = ({ noteId, onBack, onLinkCl
             return isInside({ x: el.params.x, y: el.params.y });
         }
         if (el.type === 'text') {
-            // Text origin is bottom-left, check origin
-            return isInside({ x: el.x, y: el.y - el.fontSize / 2 });
+            const box = getTextBox(el);
+            return isInside({ x: box.x + box.width / 2, y: box.y + box.height / 2 });
         }
-        return false;
+        if (el.type === 'image') {
+            return isInside({ x: el.x + el.width / 2, y: el.y + el.height / 2 });
+        }
+        // Remaining shapes: any vertex of their outline
+        return getShapePaths(el).some(path => path.some(isInside));
     };
 
     const isStrokeIntersectingElement = (stroke: Point[], el: DrawingElement, threshold: number) => {
@@ -443,14 +688,21 @@ export const MemoEditor: React.FC<MemoEditorProps> = ({ noteId, onBack, onLinkCl
         const pointers = Array.from(activePointers.current.values());
         const hasPen = pointers.some(p => p.type === 'pen');
         const pt = getLocalPoint(e.clientX, e.clientY);
+        lastPointerRef.current = pt;
+
+        // New ink and text go on the active layer, so it has to be writable
+        if ((mode === 'text' || mode === 'pen' || mode === 'highlighter') && activeLayer && (activeLayer.locked || !activeLayer.visible)) {
+            if (pointers.length === 1) alert(`Layer "${activeLayer.name}" is locked or hidden.`);
+            return;
+        }
 
         // TEXT MODE: Create or Edit
         // Priority: Hit existing text first
         if (mode === 'text' && pointers.length === 1) {
             let hitText = null;
             // Iterate in reverse to hit top-most first
-            for (let i = elements.length - 1; i >= 0; i--) {
-                const el = elements[i];
+            for (let i = editableElements.length - 1; i >= 0; i--) {
+                const el = editableElements[i];
                 if (el.type === 'text' && isPointNearElement(pt, el, 10)) {
                     hitText = el;
                     break;
@@ -459,7 +711,8 @@ export const MemoEditor: React.FC<MemoEditorProps> = ({ noteId, onBack, onLinkCl
 
             if (hitText) {
                 // Edit existing
-                setTextInput({ x: hitText.x, y: hitText.y, text: hitText.content, id: hitText.id });
+                if (textInput) commitText();
+                setTextInput({ x: hitText.x, y: hitText.y, text: hitText.content, id: hitText.id, width: hitText.width, style: textStyleOf(hitText) });
                 setElements(prev => prev.filter(e => e.id !== hitText!.id));
             } else {
                 // Create new
@@ -469,7 +722,7 @@ export const MemoEditor: React.FC<MemoEditorProps> = ({ noteId, onBack, onLinkCl
                 }
                 // Small delay to prevent immediate close if we just clicked? 
                 // No, just open new input at new pos
-                setTextInput({ x: pt.x, y: pt.y, text: '' });
+                setTextInput({ x: pt.x, y: pt.y, text: '', style: textStyle });
             }
             return;
         }
@@ -483,18 +736,39 @@ export const MemoEditor: React.FC<MemoEditorProps> = ({ noteId, onBack, onLinkCl
 
         // SELECTION MODE
         if (mode === 'select' && pointers.length === 1) {
+            // Gizmo handles take priority over elements underneath
+            const handle = hitGizmoHandle(pt);
+            const gizmo = handle ? getGizmo() : null;
+            if (handle && gizmo) {
+                transformSession.current = {
+                    handle,
+                    bounds: gizmo.bounds,
+                    start: pt,
+                    originals: new Map(elements.filter(el => selectedIds.has(el.id)).map(el => [el.id, el]))
+                };
+                isPanning.current = false;
+                return;
+            }
+
             // Check Hit
             let foundId: string | null = null;
-            for (let i = elements.length - 1; i >= 0; i--) {
-                if (isPointNearElement(pt, elements[i], 10)) {
-                    foundId = elements[i].id;
+            for (let i = editableElements.length - 1; i >= 0; i--) {
+                if (isPointNearElement(pt, editableElements[i], 10)) {
+                    foundId = editableElements[i].id;
                     break;
                 }
             }
 
-            if (foundId) {
+            if (foundId && e.shiftKey) {
+                // Additive: toggle just this element
+                const next = new Set(selectedIds);
+                if (next.has(foundId)) next.delete(foundId);
+                else next.add(foundId);
+                setSelectedIds(next);
+            } else if (foundId) {
                 // If clicking a selected item, start dragging ALL selected
                 // But if we clicked an item that is NOT in the current selection, selection should reset to just this item
+                const previous = selectedIds;
                 if (selectedIds.has(foundId)) {
                     // Start dragging current selection
                 } else {
@@ -503,12 +777,30 @@ export const MemoEditor: React.FC<MemoEditorProps> = ({ noteId, onBack, onLinkCl
                 }
                 isDraggingSelection.current = true;
                 lastDragPos.current = pt;
+
+                // Holding still instead toggles the element within the previous selection
+                const hitId = foundId;
+                longPressOrigin.current = { x: e.clientX, y: e.clientY };
+                longPressTimer.current = setTimeout(() => {
+                    longPressTimer.current = null;
+                    isDraggingSelection.current = false;
+                    const next = new Set(previous);
+                    if (next.has(hitId)) next.delete(hitId);
+                    else next.add(hitId);
+                    setSelectedIds(next);
+                    navigator.vibrate?.(30);
+                }, 500);
             } else {
                 // Clicked Empty Space
-                // Clear selection
-                setSelectedIds(new Set());
-                // Start Box Selection
-                setSelectionBox({ start: pt, end: pt });
+                // Shift keeps the current selection and adds to it
+                selectionBaseRef.current = e.shiftKey ? new Set(selectedIds) : new Set();
+                if (!e.shiftKey) setSelectedIds(new Set());
+                // Start Box / Lasso Selection
+                if (selectTool === 'lasso') {
+                    setLassoPath([pt]);
+                } else {
+                    setSelectionBox({ start: pt, end: pt });
+                }
             }
 
             isPanning.current = false; // Override pan
@@ -516,9 +808,9 @@ export const MemoEditor: React.FC<MemoEditorProps> = ({ noteId, onBack, onLinkCl
         }
 
         if (hasPen && e.pointerType === 'pen') {
-            if (['pen', 'eraser'].includes(mode)) {
+            if (['pen', 'highlighter', 'eraser'].includes(mode)) {
                 isPanning.current = false;
-                currentStrokeRef.current = [pt];
+                currentStrokeRef.current = [getStrokePoint(e)];
                 setTick(t => t + 1);
             }
             return;
@@ -533,30 +825,45 @@ export const MemoEditor: React.FC<MemoEditorProps> = ({ noteId, onBack, onLinkCl
             initialScale.current = transform.scale;
             lastCenter.current = mid(pointers[0], pointers[1]);
         } else if (pointers.length === 1 && !hasPen) {
-            if (['pen', 'eraser'].includes(mode)) {
+            if (['pen', 'highlighter', 'eraser'].includes(mode)) {
                 isPanning.current = false;
-                currentStrokeRef.current = [pt];
+                currentStrokeRef.current = [getStrokePoint(e)];
                 setTick(t => t + 1);
             }
         }
     };
 
-    const updateElementPosition = (el: DrawingElement, dx: number, dy: number): DrawingElement => {
-        if (el.type === 'stroke') {
-            return { ...el, points: el.points.map(p => ({ x: p.x + dx, y: p.y + dy })) };
-        } else if (el.type === 'line') {
-            const { start, end } = el.params;
-            return { ...el, params: { ...el.params, start: { x: start.x + dx, y: start.y + dy }, end: { x: end.x + dx, y: end.y + dy } } };
-        } else if (el.type === 'circle') {
-            const { x, y } = el.params;
-            return { ...el, params: { ...el.params, x: x + dx, y: y + dy } };
-        } else if (el.type === 'rect') {
-            const { x, y } = el.params;
-            return { ...el, params: { ...el.params, x: x + dx, y: y + dy } };
-        } else if (el.type === 'text') {
-            return { ...el, x: el.x + dx, y: el.y + dy };
+    // Builds the transform for a gizmo drag from `start` to `pt`
+    const applyGizmoDrag = (handle: GizmoHandle, bounds: Rectangle, start: Point, pt: Point, shiftKey: boolean) => {
+        const center = { x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height / 2 };
+
+        if (handle === 'rotate') {
+            let angle = Math.atan2(pt.y - center.y, pt.x - center.x) - Math.atan2(start.y - center.y, start.x - center.x);
+            // Shift snaps to 15 degree steps
+            if (shiftKey) angle = Math.round(angle / (Math.PI / 12)) * (Math.PI / 12);
+            return (el: DrawingElement) => rotateElement(el, center, angle);
+        }
+
+        // The opposite side/corner stays fixed
+        const anchorX = handle.includes('w') ? bounds.x + bounds.width : handle.includes('e') ? bounds.x : center.x;
+        const anchorY = handle.includes('n') ? bounds.y + bounds.height : handle.includes('s') ? bounds.y : center.y;
+        const scaleFor = (size: number, from: number, to: number, anchor: number) => {
+            if (size < 1) return 1;
+            const s = (to - anchor) / (from - anchor || 1);
+            // Never collapse to zero
+            return Math.abs(s) < 0.05 ? Math.sign(s || 1) * 0.05 : s;
+        };
+        let sx = handle.includes('e') || handle.includes('w') ? scaleFor(bounds.width, start.x, pt.x, anchorX) : 1;
+        let sy = handle.includes('n') || handle.includes('s') ? scaleFor(bounds.height, start.y, pt.y, anchorY) : 1;
+
+        if (aspectLock || shiftKey) {
+            const isCorner = handle.length === 2;
+            const s = isCorner ? (Math.abs(sx) > Math.abs(sy) ? sx : sy) : (sx !== 1 ? sx : sy);
+            sx = Math.sign(sx || 1) * Math.abs(s);
+            sy = Math.sign(sy || 1) * Math.abs(s);
         }
-        return el;
+
+        return (el: DrawingElement) => scaleElement(el, { x: anchorX, y: anchorY }, sx, sy);
     };
 
     const onPointerMove = (e: React.PointerEvent) => {
@@ -569,6 +876,34 @@ export const MemoEditor: React.FC<MemoEditorProps> = ({ noteId, onBack, onLinkCl
         const pointers = Array.from(activePointers.current.values());
         const hasPen = pointers.some(p => p.type === 'pen');
         const pt = getLocalPoint(e.clientX, e.clientY);
+        lastPointerRef.current = pt;
+
+        // Resize / Rotate
+        if (transformSession.current) {
+            const { handle, bounds, start, originals } = transformSession.current;
+            const transformOne = applyGizmoDrag(handle, bounds, start, pt, e.shiftKey);
+            setElements(prev => prev.map(el => {
+                const original = originals.get(el.id);
+                return original ? transformOne(original) : el;
+            }));
+            return;
+        }
+
+        // Moving cancels a pending long press
+        if (longPressTimer.current && longPressOrigin.current &&
+            dist(longPressOrigin.current, { x: e.clientX, y: e.clientY }) > 6) {
+            clearTimeout(longPressTimer.current);
+            longPressTimer.current = null;
+        }
+
+        // Update Lasso
+        if (lassoPath) {
+            const last = lassoPath[lassoPath.length - 1];
+            if (dist(last, pt) * transform.scale > 2) {
+                setLassoPath(prev => prev ? [...prev, pt] : null);
+            }
+            return;
+        }
 
         // Update Box Selection
         if (selectionBox) {
@@ -588,7 +923,7 @@ export const MemoEditor: React.FC<MemoEditorProps> = ({ noteId, onBack, onLinkCl
             // Move local for feedback (no history push yet)
             setElements(prev => prev.map(el => {
                 if (selectedIds.has(el.id)) {
-                    return updateElementPosition(el, dx, dy);
+                    return translateElement(el, dx, dy);
                 }
                 return el;
             }));
@@ -626,27 +961,31 @@ export const MemoEditor: React.FC<MemoEditorProps> = ({ noteId, onBack, onLinkCl
         }
 
         // Drawing
-        if (!isPanning.current && ['pen', 'eraser'].includes(mode)) {
+        if (!isPanning.current && ['pen', 'highlighter', 'eraser'].includes(mode)) {
             if (hasPen && e.pointerType !== 'pen') return;
 
             if (currentStrokeRef.current.length > 0) {
                 const last = currentStrokeRef.current[currentStrokeRef.current.length - 1];
                 if (Math.abs(last.x - pt.x) > 1 || Math.abs(last.y - pt.y) > 1) {
-                    currentStrokeRef.current.push(pt);
+                    const strokePt = getStrokePoint(e);
+                    currentStrokeRef.current.push(strokePt);
 
-                    // Optimization: Direct draw for feedback
+                    // Optimization: Direct draw for feedback (final shape is rendered on commit)
                     const canvas = canvasRef.current;
                     const ctx = canvas?.getContext('2d');
                     if (ctx) {
-                        ctx.strokeStyle = mode === 'eraser' ? '#ff0000' : 'black';
-                        ctx.lineWidth = mode === 'eraser' ? eraserWidth : penWidth;
-                        if (mode === 'eraser') ctx.globalAlpha = 0.5;
+                        ctx.save();
+                        ctx.setTransform(transform.scale, 0, 0, transform.scale, transform.x, transform.y);
+                        ctx.lineCap = 'round';
+                        ctx.strokeStyle = mode === 'eraser' ? '#ff0000' : activeStyle.color;
+                        ctx.lineWidth = mode === 'eraser' ? eraserWidth : activeStyle.width * pressureScale(strokePt.pressure);
+                        ctx.globalAlpha = mode === 'eraser' ? 0.5 : activeStyle.opacity;
 
                         ctx.beginPath();
                         ctx.moveTo(last.x, last.y);
-                        ctx.lineTo(pt.x, pt.y);
+                        ctx.lineTo(strokePt.x, strokePt.y);
                         ctx.stroke();
-                        if (mode === 'eraser') ctx.globalAlpha = 1.0;
+                        ctx.restore();
                     }
                 }
             }
@@ -657,22 +996,35 @@ export const MemoEditor: React.FC<MemoEditorProps> = ({ noteId, onBack, onLinkCl
         activePointers.current.delete(e.pointerId);
         e.currentTarget.releasePointerCapture(e.pointerId);
 
-        // Commit Selection Drag
-        if (isDraggingSelection.current) {
+        // Commit Selection Drag / Transform
+        if (isDraggingSelection.current || transformSession.current) {
             pushHistory(elements);
         }
+        transformSession.current = null;
 
         isDraggingSelection.current = false;
         lastDragPos.current = null;
 
+        if (longPressTimer.current) {
+            clearTimeout(longPressTimer.current);
+            longPressTimer.current = null;
+        }
+
         // Commit Box Selection
         if (selectionBox) {
-            const found = elements.filter(el => isElementInBox(el, selectionBox));
-            const newIds = new Set(found.map(el => el.id));
+            const found = editableElements.filter(el => isElementInBox(el, selectionBox));
+            const newIds = new Set([...selectionBaseRef.current, ...found.map(el => el.id)]);
             setSelectedIds(newIds);
             setSelectionBox(null);
         }
 
+        // Commit Lasso Selection: elements mostly inside the loop
+        if (lassoPath) {
+            const found = editableElements.filter(el => enclosedFraction(el, lassoPath) >= 0.5);
+            setSelectedIds(new Set([...selectionBaseRef.current, ...found.map(el => el.id)]));
+            setLassoPath(null);
+        }
+
         if (activePointers.current.size < 2) {
             isPanning.current = false;
             lastCenter.current = null;
@@ -687,8 +1039,8 @@ export const MemoEditor: React.FC<MemoEditorProps> = ({ noteId, onBack, onLinkCl
             if (mode === 'view' && !isPanning.current && activePointers.current.size === 0) {
                 const pt = getLocalPoint(e.clientX, e.clientY);
                 (async () => {
-                    for (let i = elements.length - 1; i >= 0; i--) {
-                        const el = elements[i];
+                    for (let i = shownElements.length - 1; i >= 0; i--) {
+                        const el = shownElements[i];
                         if (el.link && isPointNearElement(pt, el, 10)) {
                             const action = await onLinkClick(el.link, currentFolderId);
                             if (action === 'DELETE') {
@@ -717,10 +1069,37 @@ export const MemoEditor: React.FC<MemoEditorProps> = ({ noteId, onBack, onLinkCl
             return;
         }
 
-        if (mode === 'eraser') {
+        if (mode === 'eraser' && eraserMode === 'precise') {
+            let changed = false;
+            const newElements: DrawingElement[] = [];
+            elements.forEach(el => {
+                if (!editableIds.has(el.id)) {
+                    newElements.push(el);
+                } else if (el.type === 'stroke') {
+                    const pieces = splitStrokeByEraser(el.points, stroke, eraserWidth / 2 + el.width / 2);
+                    if (!pieces) {
+                        newElements.push(el);
+                        return;
+                    }
+                    changed = true;
+                    // First piece keeps the id so links and history stay attached to it
+                    pieces.forEach((points, i) => newElements.push({ ...el, id: i === 0 ? el.id : uuidv4(), points }));
+                } else if (el.type !== 'image' && isStrokeIntersectingElement(stroke, el, eraserWidth / 2)) {
+                    // Shapes and text can't be cut, so they go as a whole (images are never erased)
+                    changed = true;
+                } else {
+                    newElements.push(el);
+                }
+            });
+
+            if (changed) {
+                pushHistory(newElements);
+            }
+        } else if (mode === 'eraser') {
             const idsToRemove = new Set<string>();
             elements.forEach(el => {
-                if (isStrokeIntersectingElement(stroke, el, eraserWidth)) {
+                // Images are annotated over, not erased
+                if (el.type !== 'image' && editableIds.has(el.id) && isStrokeIntersectingElement(stroke, el, eraserWidth)) {
                     idsToRemove.add(el.id);
                 }
             });
@@ -730,36 +1109,71 @@ export const MemoEditor: React.FC<MemoEditorProps> = ({ noteId, onBack, onLinkCl
                 pushHistory(newElements);
             }
         } else {
-            const newEl: DrawingElement = {
+            const newStroke: Stroke = {
                 id: uuidv4(),
                 type: 'stroke',
                 points: stroke,
-                color: 'black',
-                width: penWidth,
-                ...(autoShape ? { shape: recognizeShape(stroke) } : {})
+                color: activeStyle.color,
+                width: activeStyle.width,
+                ...(activeStyle.opacity < 1 ? { opacity: activeStyle.opacity } : {}),
+                ...(mode === 'highlighter' ? { highlighter: true } : {}),
+                ...(strokeThinning > 0 ? { thinning: strokeThinning } : {}),
+                layerId: activeLayerId
             };
 
-            pushHistory([...elements, newEl]);
+            // Highlighter marks are never auto-corrected
+            const recognized = autoShape && mode === 'pen' ? recognizeShape(stroke) : null;
+            if (recognized) {
+                // Commit the corrected shape, but keep the stroke around so it can be restored
+                const shapeEl: Shape = {
+                    id: uuidv4(),
+                    type: recognized.type,
+                    params: recognized.params,
+                    color: newStroke.color,
+                    width: newStroke.width,
+                    opacity: newStroke.opacity,
+                    layerId: activeLayerId
+                };
+                pushHistory([...elements, shapeEl]);
+                setShapeFallback({ shapeId: shapeEl.id, stroke: newStroke });
+            } else {
+                pushHistory([...elements, newStroke]);
+            }
         }
 
         currentStrokeRef.current = [];
         setTick(t => t + 1);
     };
 
+    // Swap the auto-corrected shape back for the stroke that was actually drawn
+    const keepOriginalStroke = () => {
+        if (!shapeFallback) return;
+        const { shapeId, stroke } = shapeFallback;
+        if (elements.some(el => el.id === shapeId)) {
+            pushHistory(elements.map(el => el.id === shapeId ? stroke : el));
+        }
+        setShapeFallback(null);
+    };
+
     const commitText = () => {
         if (!textInput) return;
-        const { x, y, text, id } = textInput;
+        const { x, y, text, id, width, style } = textInput;
 
         if (text.trim()) {
             let newElements;
             if (id) {
+                // Edited text keeps its layer, rotation and link
+                const original = committedElementsRef.current.find(el => el.id === id);
                 const updatedEl: TextElement = {
                     id: id,
                     type: 'text',
                     x, y,
                     content: text,
-                    color: 'black',
-                    fontSize: fontSize
+                    ...textStyleFields(style),
+                    ...(width ? { width } : {}),
+                    ...(original?.type === 'text' && original.rotation ? { rotation: original.rotation } : {}),
+                    ...(original?.link ? { link: original.link } : {}),
+                    layerId: original?.layerId ?? activeLayerId
                 };
                 newElements = [...elements, updatedEl];
             } else {
@@ -768,8 +1182,9 @@ export const MemoEditor: React.FC<MemoEditorProps> = ({ noteId, onBack, onLinkCl
                     type: 'text',
                     x, y,
                     content: text,
-                    color: 'black',
-                    fontSize: fontSize
+                    ...textStyleFields(style),
+                    ...(width ? { width } : {}),
+                    layerId: activeLayerId
                 };
                 newElements = [...elements, newEl];
             }
@@ -782,6 +1197,14 @@ export const MemoEditor: React.FC<MemoEditorProps> = ({ noteId, onBack, onLinkCl
         setTextInput(null);
     };
 
+    // Layout of the open text box, to size the textarea like the canvas will draw it
+    const textDraft = textInput ? layoutText({
+        id: '', type: 'text', x: textInput.x, y: textInput.y, content: textInput.text,
+        ...textStyleFields(textInput.style),
+        ...(textInput.width ? { width: textInput.width } : {})
+    }) : null;
+    const textBoxWidth = textInput && textDraft ? textInput.width ?? Math.max(100, textDraft.width + textInput.style.fontSize) : 0;
+
     // Auto-focus text input
     useEffect(() => {
         if (textInput && textInputRef.current) {
@@ -790,25 +1213,55 @@ export const MemoEditor: React.FC<MemoEditorProps> = ({ noteId, onBack, onLinkCl
     }, [textInput]);
 
 
+    // Reads the selected ink, or all ink on shown layers, from the elements themselves (not the screen)
     const handleOCR = async () => {
-        if (!canvasRef.current) return;
-        setIsProcessingOCR(true);
+        const source = selectedIds.size > 0 ? shownElements.filter(el => selectedIds.has(el.id)) : shownElements;
+        const strokes = source.filter((el): el is Stroke => el.type === 'stroke' && !el.highlighter);
+        const bounds = getElementsBounds(strokes);
+        if (!bounds) {
+            alert("No handwriting to read.");
+            return;
+        }
+
+        setOcrStatus('OCR 準備中...');
         try {
-            const text = await recognizeTextFromCanvas(canvasRef.current);
-            if (text) {
-                if (confirm(`Convert handwriting to text ?\n\n"${text}"`)) {
-                    setNoteContent(prev => prev + (prev ? '\n' : '') + text);
-                    setElements([]);
-                    setMode('text');
-                }
-            } else {
+            const image = renderStrokesForOcr(strokes, bounds);
+            const { text, lines } = await recognizeText(image.canvas, ocrLanguage, (progress, ready) => {
+                setOcrStatus(ready ? `OCR ${Math.round(progress * 100)}%` : 'OCR 準備中...');
+            });
+            if (!text) {
                 alert("No text detected.");
+                return;
+            }
+
+            // Only a selection can be converted in place; otherwise the text goes to the note body
+            if (selectedIds.size > 0 && confirm(`Replace the selected handwriting with this text?\n\n"${text}"`)) {
+                // Size from the recognized line heights, so the text covers about what the ink did
+                const lineHeights = lines.map(l => imageToWorld(image, l.bbox).height);
+                const lineHeight = lineHeights.length > 0 ? lineHeights.reduce((a, b) => a + b) / lineHeights.length : bounds.height;
+                const fontSize = Math.round(Math.min(100, Math.max(10, lineHeight)));
+                const textEl: TextElement = {
+                    id: uuidv4(),
+                    type: 'text',
+                    x: bounds.x,
+                    y: bounds.y + fontSize,
+                    content: text,
+                    ...textStyleFields({ ...textStyle, fontSize, color: strokes[0].color }),
+                    layerId: strokes[0].layerId ?? activeLayerId
+                };
+                const replaced = new Set(strokes.map(s => s.id));
+                pushHistory([...elements.filter(el => !replaced.has(el.id)), textEl]);
+                setSelectedIds(new Set([textEl.id]));
+            } else if (confirm(`Add the recognized text to the note?\n\n"${text}"`)) {
+                // The handwriting stays; only the recognized text is added
+                setNoteContent(prev => prev + (prev ? '\n' : '') + text);
+                setMode('text');
             }
         } catch (e) {
             console.error(e);
             alert("OCR failed.");
         } finally {
-            setIsProcessingOCR(false);
+            setOcrStatus(null);
         }
     };
 
@@ -843,9 +1296,9 @@ export const MemoEditor: React.FC<MemoEditorProps> = ({ noteId, onBack, onLinkCl
                 await db.notes.add(newNote);
 
                 // Update Elements with Link
-                setElements(prev => prev.map(el => {
+                pushHistory(elements.map(el => {
                     if (selectedIds.has(el.id)) {
-                        return { ...el, link: title };
+                        return { ...el, link: noteLink(newNote.id, title) };
                     }
                     return el;
                 }));
@@ -865,39 +1318,273 @@ export const MemoEditor: React.FC<MemoEditorProps> = ({ noteId, onBack, onLinkCl
 
 
 
+    // `raw` is the text between the brackets, alias and heading included
+    const openContentLink = async (raw: string) => {
+        const action = await onLinkClick(raw, currentFolderId);
+        if (action === 'DELETE') {
+            // Remove this link syntax from text content
+            // This is a bit brute-force, replacing ALL instances of this specific link
+            // But since there's no unique ID for text parts, it's the safest assumption
+            const linkStr = `[[${raw}]]`;
+            setNoteContent(prev => prev.replaceAll(linkStr, wikiLinkLabel(parseWikiLink(raw)))); // Keep the shown text, remove brackets
+        }
+    };
+
     const renderContentView = () => {
-        const parts = noteContent.split(/(\[\[.*?\]\])/g);
-        return parts.map((part, i) => {
-            if (part.startsWith('[[') && part.endsWith(']]')) {
-                const content = part.slice(2, -2);
-                return (
-                    <span
-                        key={i}
-                        className="text-blue-600 underline cursor-pointer hover:text-blue-800"
-                        onClick={async (e) => {
-                            e.stopPropagation();
-                            const action = await onLinkClick(content, currentFolderId);
-                            if (action === 'DELETE') {
-                                // Remove this link syntax from text content
-                                // This is a bit brute-force, replacing ALL instances of this specific link
-                                // But since there's no unique ID for text parts, it's the safest assumption
-                                const linkStr = `[[${content}]]`;
-                                setNoteContent(prev => prev.replaceAll(linkStr, content)); // Keep content, remove brackets
-                            }
-                        }}
-                    >
-                        {content}
-                    </span>
-                );
-            }
-            return <span key={i}>{part}</span>;
+        if (markdownContent) {
+            return (
+                <MarkdownView
+                    content={noteContent}
+                    interactive
+                    onWikiLink={openContentLink}
+                    onToggleTask={line => setNoteContent(prev => toggleTask(prev, line))}
+                />
+            );
+        }
+        const parts: React.ReactNode[] = [];
+        let last = 0;
+        findWikiLinks(noteContent).forEach((link, i) => {
+            parts.push(<span key={`t${i}`}>{noteContent.slice(last, link.index)}</span>);
+            parts.push(
+                <span
+                    key={i}
+                    className="text-blue-600 underline cursor-pointer hover:text-blue-800"
+                    onClick={(e) => {
+                        e.stopPropagation();
+                        openContentLink(link.raw);
+                    }}
+                >
+                    {wikiLinkLabel(link)}
+                </span>
+            );
+            last = link.index + link.length;
         });
+        parts.push(<span key="end">{noteContent.slice(last)}</span>);
+        return <div className="whitespace-pre-wrap">{parts}</div>;
+    };
+
+    // Clipboard
+    const getPasteTarget = (): Point => lastPointerRef.current ?? {
+        x: (viewportSize.width / 2 - transform.x) / transform.scale,
+        y: (viewportSize.height / 2 - transform.y) / transform.scale
+    };
+
+    // Pasted content lands on top and becomes the selection.
+    // Anything not already on an editable layer of this note (other notes, new text/images) joins the active layer.
+    const insertPasted = (pasted: DrawingElement[]) => {
+        if (pasted.length === 0) return;
+        const placed = pasted.map(el => layers.some(l => l.id === el.layerId && l.visible && !l.locked) ? el : { ...el, layerId: activeLayerId });
+        pushHistory([...committedElementsRef.current, ...placed]);
+        setMode('select');
+        setSelectedIds(new Set(placed.map(el => el.id)));
+    };
+
+    const handleCopy = async () => {
+        const selected = elements.filter(el => selectedIds.has(el.id));
+        if (selected.length > 0) await copyElements(selected);
+    };
+
+    const handleCut = async () => {
+        if (selectedIds.size === 0) return;
+        await handleCopy();
+        pushHistory(elements.filter(el => !selectedIds.has(el.id)));
+        setSelectedIds(new Set());
+    };
+
+    const handleDuplicate = () => {
+        const copies = elements
+            .filter(el => selectedIds.has(el.id))
+            .map(el => ({ ...translateElement(el, 20, 20), id: uuidv4() }));
+        insertPasted(copies);
+    };
+
+    const pasteText = (text: string) => {
+        const payload = parseClipboardPayload(text) ?? (text ? null : getLocalClipboard());
+        const target = getPasteTarget();
+        if (payload) {
+            insertPasted(prepareForPaste(payload.elements, target));
+        } else if (text.trim()) {
+            const textEl: TextElement = {
+                id: uuidv4(),
+                type: 'text',
+                x: target.x, y: target.y,
+                content: text,
+                ...textStyleFields(textStyle)
+            };
+            insertPasted([textEl]);
+        }
+    };
+
+    // Images are placed side by side starting at `at`, at most 600px on their longest side
+    const insertImages = async (blobs: Blob[], at: Point) => {
+        const inserted: DrawingElement[] = [];
+        let x = at.x;
+        try {
+            for (const blob of blobs) {
+                const stored = await saveImageBlob(blob);
+                const scale = Math.min(1, 600 / Math.max(stored.width, stored.height));
+                const width = stored.width * scale;
+                const height = stored.height * scale;
+                inserted.push({
+                    id: uuidv4(),
+                    type: 'image',
+                    imageId: stored.id,
+                    // A single image is centred on the target
+                    x: blobs.length === 1 ? x - width / 2 : x,
+                    y: blobs.length === 1 ? at.y - height / 2 : at.y,
+                    width, height
+                });
+                x += width + 20;
+            }
+        } catch (e) {
+            console.error(e);
+            alert("Could not insert the image.");
+        }
+        insertPasted(inserted);
+    };
+
+    const pasteImage = (blob: Blob) => insertImages([blob], getPasteTarget());
+
+    // PDF pages become a column of page images on the background layer, ready for marking up
+    const importPdf = async (file: Blob, at: Point) => {
+        const layerId = layers.some(l => l.id === BACKGROUND_LAYER_ID) ? BACKGROUND_LAYER_ID : layers[0].id;
+        setImportStatus('PDF を読み込み中...');
+        try {
+            const pages = await renderPdfPages(file, 2, (done, total) => setImportStatus(`PDF ${done}/${total}`));
+            const pageElements: DrawingElement[] = [];
+            let y = at.y;
+            for (const page of pages) {
+                const stored = await saveImageBlob(page.blob, 4096);
+                pageElements.push({
+                    id: uuidv4(),
+                    type: 'image',
+                    imageId: stored.id,
+                    x: at.x, y,
+                    width: page.width, height: page.height,
+                    layerId
+                });
+                y += page.height + 24;
+            }
+            if (pageElements.length > 0) {
+                pushHistory([...pageElements, ...committedElementsRef.current]);
+            }
+        } catch (e) {
+            console.error(e);
+            alert("Could not import the PDF.");
+        } finally {
+            setImportStatus(null);
+        }
+    };
+
+    const insertFiles = async (files: File[], at: Point) => {
+        const images = files.filter(f => f.type.startsWith('image/'));
+        const pdfs = files.filter(f => f.type === 'application/pdf');
+        if (images.length > 0) await insertImages(images, at);
+        for (const pdf of pdfs) await importPdf(pdf, at);
+    };
+
+    const onFilesChosen = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from(e.target.files || []);
+        e.target.value = ''; // Allow choosing the same file again
+        if (files.length > 0) insertFiles(files, getPasteTarget());
+    };
+
+    const onDrop = (e: React.DragEvent) => {
+        e.preventDefault();
+        const files = Array.from(e.dataTransfer.files);
+        if (files.length > 0) insertFiles(files, getLocalPoint(e.clientX, e.clientY));
+    };
+
+    // Toolbar paste: read the system clipboard when allowed, else the local copy
+    const handlePaste = async () => {
+        try {
+            const items = await navigator.clipboard.read();
+            for (const item of items) {
+                const imageType = item.types.find(t => t.startsWith('image/'));
+                if (imageType) {
+                    await pasteImage(await item.getType(imageType));
+                    return;
+                }
+            }
+            for (const item of items) {
+                if (item.types.includes('text/plain')) {
+                    pasteText(await (await item.getType('text/plain')).text());
+                    return;
+                }
+            }
+        } catch (e) {
+            console.warn('Clipboard read failed, using local clipboard:', e);
+        }
+        pasteText('');
     };
 
+    // Ctrl+V arrives as a paste event, which also carries images
+    useEffect(() => {
+        const onPaste = (e: ClipboardEvent) => {
+            const target = e.target as HTMLElement | null;
+            if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+            const data = e.clipboardData;
+            if (!data) return;
+            e.preventDefault();
+            const image = Array.from(data.files).find(f => f.type.startsWith('image/'));
+            if (image) pasteImage(image);
+            else pasteText(data.getData('text/plain'));
+        };
+        window.addEventListener('paste', onPaste);
+        return () => window.removeEventListener('paste', onPaste);
+    });
+
     // Delete Selected
+    // Z-order within each layer
+    const handleBringToFront = () => pushHistory(bringToFront(elements, selectedIds));
+    const handleSendToBack = () => pushHistory(sendToBack(elements, selectedIds));
+
+    const moveSelectionToLayer = (layerId: string) => {
+        pushHistory(elements.map(el => selectedIds.has(el.id) ? { ...el, layerId } : el));
+        const target = layers.find(l => l.id === layerId);
+        if (target && (target.locked || !target.visible)) setSelectedIds(new Set());
+    };
+
+    // Every layer edit is an undo step, so restoring a step's layer list never drops later edits.
+    // A run of opacity changes to one layer (dragging the slider) stays a single step.
+    const changeLayers = (next: Layer[]) => {
+        const { entries, step } = historyRef.current;
+        const last = step === entries.length ? entries[step - 1] : undefined;
+        const lastOp = last?.ops.length === 1 ? last.ops[0] : undefined;
+        const slid = opacityChange(layers, next);
+        if (slid && lastOp?.type === 'layers' && lastOp.after === layers && opacityChange(lastOp.before, lastOp.after) === slid) {
+            const merged: HistoryEntry = { ops: [{ ...lastOp, after: next }], at: Date.now() };
+            setLayers(next);
+            setHistory([...entries.slice(0, -1), merged], step);
+            return;
+        }
+        pushHistory(committedElementsRef.current, { before: layers, after: next });
+    };
+
+    const deleteLayer = (layerId: string) => {
+        const layer = layers.find(l => l.id === layerId);
+        if (!layer || layers.length <= 1) return;
+        const doomed = elements.filter(el => resolveLayerId(el, layers) === layerId);
+        if (!confirm(doomed.length > 0 ? `Delete layer "${layer.name}" and its ${doomed.length} elements?` : `Delete layer "${layer.name}"?`)) return;
+
+        // One undo step brings back the layer (with its visibility, lock and opacity) and its elements
+        const rest = layers.filter(l => l.id !== layerId);
+        pushHistory(elements.filter(el => resolveLayerId(el, layers) !== layerId), { before: layers, after: rest });
+        if (activeLayerId === layerId) setActiveLayerId(rest[rest.length - 1].id);
+    };
+
+    const elementCounts = useMemo(() => {
+        const counts = new Map<string, number>();
+        elements.forEach(el => {
+            const id = resolveLayerId(el, layers);
+            counts.set(id, (counts.get(id) || 0) + 1);
+        });
+        return counts;
+    }, [elements, layers]);
+
     const onDelete = () => {
         if (selectedIds.size > 0) {
-            setElements(prev => prev.filter(el => !selectedIds.has(el.id)));
+            pushHistory(elements.filter(el => !selectedIds.has(el.id)));
             setSelectedIds(new Set());
         }
     };
@@ -905,8 +1592,46 @@ export const MemoEditor: React.FC<MemoEditorProps> = ({ noteId, onBack, onLinkCl
 
     return (
         <div className="flex flex-col h-full bg-white relative overflow-hidden">
-            {/* Update Toast */}
+            {/* Import / OCR Progress */}
+            {(importStatus || ocrStatus) && (
+                <div className="absolute top-16 right-4 z-[60] bg-black/80 text-white text-xs px-3 py-2 rounded-full shadow-lg animate-pulse">
+                    {importStatus || ocrStatus}
+                </div>
+            )}
+
+            {showLayers && (
+                <LayersPanel
+                    layers={layers}
+                    activeLayerId={activeLayerId}
+                    elementCounts={elementCounts}
+                    canMoveSelection={mode === 'select' && selectedIds.size > 0}
+                    onChange={changeLayers}
+                    onActivate={setActiveLayerId}
+                    onDelete={deleteLayer}
+                    onMoveSelection={moveSelectionToLayer}
+                />
+            )}
+
+            {showBacklinks && (
+                <BacklinksPanel
+                    noteId={noteId}
+                    title={title}
+                    onOpen={(id, linkedTitle) => onLinkClick(noteLink(id, linkedTitle), currentFolderId)}
+                    onClose={() => setShowBacklinks(false)}
+                />
+            )}
 
+            {showExport && (
+                <ExportPanel title={title} elements={elements} layers={layers} onClose={() => setShowExport(false)} />
+            )}
+
+            {/* Shape Correction Toast */}
+            {shapeFallback && (
+                <div className="absolute top-16 left-1/2 -translate-x-1/2 z-[60] flex items-center gap-3 bg-black/80 text-white text-xs px-3 py-2 rounded-full shadow-lg">
+                    <span>Shape corrected</span>
+                    <button onClick={keepOriginalStroke} className="font-bold underline">Keep original stroke</button>
+                </div>
+            )}
 
             {/* Toolbar (Fixed) */}
             <div className="flex items-center gap-2 p-2 px-4 border-b bg-muted/20 z-50 overflow-x-auto shrink-0 relative shadow-sm">
@@ -916,36 +1641,74 @@ export const MemoEditor: React.FC<MemoEditorProps> = ({ noteId, onBack, onLinkCl
                 <button onClick={() => setMode('select')} className={cn("p-2 rounded", mode === 'select' && "bg-primary/20 text-primary")} title="Select Mode"><MousePointer2 size={20} /></button>
                 <button onClick={() => setMode('text')} className={cn("p-2 rounded", mode === 'text' && "bg-primary/20 text-primary")} title="Text Mode"><Type size={20} /></button>
                 <button onClick={() => setMode('pen')} className={cn("p-2 rounded", mode === 'pen' && "bg-primary/20 text-primary")} title="Pen Mode"><Pen size={20} /></button>
+                <button onClick={() => setMode('highlighter')} className={cn("p-2 rounded", mode === 'highlighter' && "bg-primary/20 text-primary")} title="Highlighter Mode"><Highlighter size={20} /></button>
                 <button onClick={() => setMode('eraser')} className={cn("p-2 rounded", mode === 'eraser' && "bg-destructive/10 text-destructive")} title="Eraser Mode"><Eraser size={20} /></button>
 
-                {/* Width Slider (Only for Pen/Eraser) */}
-                {(mode === 'pen' || mode === 'eraser') && (
+                {/* Width Slider (Only for Pen/Highlighter/Eraser) */}
+                {(mode === 'pen' || mode === 'highlighter' || mode === 'eraser') && (
                     <div className="flex items-center gap-2 ml-2 bg-white/50 p-1 rounded border">
-                        <div className={cn("w-2 h-2 rounded-full bg-black", mode === 'eraser' && "bg-red-500")}
-                            style={{ width: mode === 'pen' ? penWidth : eraserWidth / 3, height: mode === 'pen' ? penWidth : eraserWidth / 3 }} />
+                        <div className={cn("w-2 h-2 rounded-full", mode === 'eraser' && "bg-red-500")}
+                            style={{
+                                width: mode === 'eraser' ? eraserWidth / 3 : Math.min(activeStyle.width, 20),
+                                height: mode === 'eraser' ? eraserWidth / 3 : Math.min(activeStyle.width, 20),
+                                ...(mode !== 'eraser' ? { backgroundColor: activeStyle.color, opacity: activeStyle.opacity } : {})
+                            }} />
                         <input
                             type="range"
-                            min={mode === 'pen' ? "1" : "5"}
+                            min={mode === 'eraser' ? "5" : "1"}
                             max={mode === 'pen' ? "20" : "50"}
-                            value={mode === 'pen' ? penWidth : eraserWidth}
-                            onChange={e => mode === 'pen' ? setPenWidth(Number(e.target.value)) : setEraserWidth(Number(e.target.value))}
+                            value={mode === 'eraser' ? eraserWidth : activeStyle.width}
+                            onChange={e => mode === 'eraser' ? setEraserWidth(Number(e.target.value)) : setActiveStyle({ ...activeStyle, width: Number(e.target.value) })}
                             className="w-20 h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
                         />
                     </div>
                 )}
 
-                {/* Font Size for Text Mode */}
+                {mode === 'pen' && (
+                    <label className="flex items-center gap-1 text-xs select-none cursor-pointer ml-2 px-2 hover:bg-muted py-1 rounded shrink-0" title="Thinner lines when writing fast">
+                        <input type="checkbox" checked={velocityThinning} onChange={e => setVelocityThinning(e.target.checked)} />
+                        <span>Nib</span>
+                    </label>
+                )}
+
+                {mode === 'eraser' && (
+                    <div className="flex items-center ml-2 bg-white/50 rounded border text-xs overflow-hidden shrink-0">
+                        <button onClick={() => setEraserMode('stroke')} className={cn("px-2 py-1", eraserMode === 'stroke' && "bg-destructive/10 text-destructive font-bold")} title="Erase whole strokes">Stroke</button>
+                        <button onClick={() => setEraserMode('precise')} className={cn("px-2 py-1", eraserMode === 'precise' && "bg-destructive/10 text-destructive font-bold")} title="Erase only where the eraser passes">Precise</button>
+                    </div>
+                )}
+
+                {/* Colour & Presets */}
+                {(mode === 'pen' || mode === 'highlighter') && (
+                    <PenPalette style={activeStyle} onChange={setActiveStyle} />
+                )}
+                {/* Text Style for Text Mode */}
                 {mode === 'text' && (
-                    <div className="flex items-center gap-1 ml-2 bg-white/50 p-1 rounded border">
-                        <Type size={14} className="text-gray-500" />
-                        <input
-                            type="number"
-                            min="10"
-                            max="100"
-                            value={fontSize}
-                            onChange={e => setFontSize(Number(e.target.value))}
-                            className="w-12 h-6 text-sm border rounded px-1"
-                        />
+                    <TextStyleBar style={textInput?.style ?? textStyle} onChange={updateTextStyle} />
+                )}
+
+                {/* Box / Lasso toggle */}
+                {mode === 'select' && (
+                    <div className="flex items-center ml-2 bg-white/50 rounded border overflow-hidden shrink-0">
+                        <button onClick={() => setSelectTool('box')} className={cn("p-1", selectTool === 'box' && "bg-primary/20 text-primary")} title="Box select (Shift: add)"><SquareDashed size={16} /></button>
+                        <button onClick={() => setSelectTool('lasso')} className={cn("p-1", selectTool === 'lasso' && "bg-primary/20 text-primary")} title="Lasso select (Shift: add)"><Lasso size={16} /></button>
+                    </div>
+                )}
+
+                {mode === 'select' && (
+                    <button onClick={() => setAspectLock(v => !v)} className={cn("p-1 ml-1 rounded shrink-0", aspectLock && "bg-primary/20 text-primary")} title="Lock aspect ratio when resizing (or hold Shift)">
+                        {aspectLock ? <Lock size={16} /> : <Unlock size={16} />}
+                    </button>
+                )}
+
+                {/* Clipboard for Selection */}
+                {selectedIds.size > 0 && mode === 'select' && (
+                    <div className="flex items-center ml-2 shrink-0">
+                        <button onClick={handleCopy} className="p-1 hover:bg-muted rounded" title="Copy (Ctrl+C)"><Copy size={16} /></button>
+                        <button onClick={handleCut} className="p-1 hover:bg-muted rounded" title="Cut (Ctrl+X)"><Scissors size={16} /></button>
+                        <button onClick={handleDuplicate} className="p-1 hover:bg-muted rounded" title="Duplicate (Ctrl+D)"><CopyPlus size={16} /></button>
+                        <button onClick={handleBringToFront} className="p-1 hover:bg-muted rounded" title="Bring to Front"><BringToFront size={16} /></button>
+                        <button onClick={handleSendToBack} className="p-1 hover:bg-muted rounded" title="Send to Back"><SendToBack size={16} /></button>
                     </div>
                 )}
 
@@ -956,6 +1719,12 @@ export const MemoEditor: React.FC<MemoEditorProps> = ({ noteId, onBack, onLinkCl
 
                 <div className="flex-1" />
 
+                {/* Markdown Checkbox */}
+                <label className="flex items-center gap-1 text-xs select-none cursor-pointer px-2 hover:bg-muted py-1 rounded" title="Render the note text as Markdown">
+                    <input type="checkbox" checked={markdownContent} onChange={e => setMarkdownContent(e.target.checked)} />
+                    <span>MD</span>
+                </label>
+
                 {/* Shape Checkbox */}
                 <label className="flex items-center gap-1 text-xs select-none cursor-pointer mr-2 px-2 hover:bg-muted py-1 rounded">
                     <input type="checkbox" checked={autoShape} onChange={e => setAutoShape(e.target.checked)} />
@@ -963,84 +1732,123 @@ export const MemoEditor: React.FC<MemoEditorProps> = ({ noteId, onBack, onLinkCl
                 </label>
 
                 {/* Extra Tools */}
+                <button onClick={() => setShowBacklinks(v => !v)} className={cn("p-2 hover:bg-muted", showBacklinks && "bg-primary/20 text-primary")} title="Backlinks"><Waypoints size={18} /></button>
+                <button onClick={() => { setShowLayers(v => !v); setShowExport(false); }} className={cn("p-2 hover:bg-muted", showLayers && "bg-primary/20 text-primary")} title={`Layers (${activeLayer?.name ?? ''})`}><LayersIcon size={18} /></button>
+                <button onClick={() => setTextPanel(p => p === 'hidden' ? 'split' : 'hidden')} className={cn("p-2 hover:bg-muted", textPanel !== 'hidden' && "bg-primary/20 text-primary")} title="Text Panel"><PanelRight size={18} /></button>
+                <button onClick={handlePaste} className="p-2 hover:bg-muted" title="Paste (Ctrl+V)"><ClipboardPaste size={18} /></button>
+                <button onClick={() => imageInputRef.current?.click()} disabled={!!importStatus} className="p-2 hover:bg-muted" title="Insert Image / PDF"><ImagePlus size={18} /></button>
+                <button onClick={() => cameraInputRef.current?.click()} disabled={!!importStatus} className="p-2 hover:bg-muted" title="Take Photo"><Camera size={18} /></button>
+                <input ref={imageInputRef} type="file" accept="image/*,application/pdf" multiple className="hidden" onChange={onFilesChosen} />
+                <input ref={cameraInputRef} type="file" accept="image/*" capture="environment" className="hidden" onChange={onFilesChosen} />
                 <button onClick={insertLink} className="p-2 hover:bg-muted" title="Insert Link"><LinkIcon size={18} /></button>
-                <button onClick={handleOCR} disabled={isProcessingOCR} className="p-2 hover:bg-muted" title="OCR (Scan)"><ScanText size={18} /></button>
+                <button onClick={handleOCR} disabled={!!ocrStatus} className="p-2 hover:bg-muted" title={selectedIds.size > 0 ? "OCR selection" : "OCR (Scan)"}><ScanText size={18} /></button>
+                <select value={ocrLanguage} onChange={e => setOcrLanguage(e.target.value as OcrLanguage)} className="h-7 text-xs border rounded mr-1" title="OCR language">
+                    {OCR_LANGUAGES.map(lang => <option key={lang.value} value={lang.value}>{lang.label}</option>)}
+                </select>
+
+                <button onClick={() => { setShowExport(v => !v); setShowLayers(false); }} className={cn("p-2 hover:bg-muted", showExport && "bg-primary/20 text-primary")} title="Export (PNG / SVG / PDF)"><Download size={18} /></button>
 
-                <button onClick={handleUndo} className="p-2 hover:bg-muted" disabled={historyStep <= 0}><Undo size={18} /></button>
-                {/* <button onClick={handleRedo} disabled={historyStep >= history.length - 1}><Redo size={18} /></button> */}
+                <button onClick={handleUndo} className="p-2 hover:bg-muted disabled:opacity-30" disabled={historyStep <= 0} title="Undo (Ctrl+Z)"><Undo size={18} /></button>
+                <button onClick={handleRedo} className="p-2 hover:bg-muted disabled:opacity-30" disabled={historyStep >= historyLength} title="Redo (Ctrl+Shift+Z)"><Redo size={18} /></button>
                 <button onClick={saveNote} className="p-2 hover:bg-muted text-primary"><Save size={18} /></button>
             </div>
 
 
 
-            {/* Canvas Container */}
-            <div
-                className="flex-1 relative overflow-hidden bg-gray-50 touch-none"
-                ref={containerRef}
-                onPointerDown={onPointerDown}
-                onPointerMove={onPointerMove}
-                onPointerUp={onPointerUp}
-                onPointerLeave={onPointerUp}
-                style={{
-                    backgroundImage: 'radial-gradient(circle, #cbd5e1 1px, transparent 1px)',
-                    backgroundSize: `${20 * transform.scale}px ${20 * transform.scale}px`,
-                    backgroundPosition: `${transform.x}px ${transform.y}px`
-                }}
-            >
-                {/* Canvas Layer - Fixed to Screen */}
-                <canvas
-                    ref={canvasRef}
-                    className="absolute inset-0 pointer-events-none z-10"
-                />
-
-                {/* Transformed Layer */}
+            <div className="flex-1 flex min-h-0">
+                {/* Canvas Container */}
                 <div
+                    className={cn("flex-1 relative overflow-hidden bg-gray-50 touch-none", textPanel === 'full' && "hidden")}
+                    ref={containerRef}
+                    onPointerDown={onPointerDown}
+                    onPointerMove={onPointerMove}
+                    onPointerUp={onPointerUp}
+                    onPointerLeave={onPointerUp}
+                    onDragOver={e => e.preventDefault()}
+                    onDrop={onDrop}
                     style={{
-                        transform: `translate(${transform.x}px, ${transform.y}px) scale(${transform.scale})`,
-                        transformOrigin: '0 0',
-                        // ...
+                        backgroundImage: 'radial-gradient(circle, #cbd5e1 1px, transparent 1px)',
+                        backgroundSize: `${20 * transform.scale}px ${20 * transform.scale}px`,
+                        backgroundPosition: `${transform.x}px ${transform.y}px`
                     }}
                 >
-                    {/* Background Text Note (Legacy/Underlay) */}
-                    <div className={cn("absolute inset-0 p-6 whitespace-pre-wrap leading-loose text-lg font-mono pointer-events-none")}>
-                        {renderContentView()}
+                    {/* Canvas Layer - Fixed to Screen */}
+                    <canvas
+                        ref={canvasRef}
+                        className="absolute inset-0 pointer-events-none z-10"
+                    />
+
+                    {/* Transformed Layer */}
+                    <div
+                        style={{
+                            transform: `translate(${transform.x}px, ${transform.y}px) scale(${transform.scale})`,
+                            transformOrigin: '0 0',
+                            // ...
+                        }}
+                    >
+                        {/* Text Input Overlay (Transformed space) */}
+                        {/* Move AFTER the canvas to ensure it is on top for clicks, but canvas has pointer-events-none so it is fine either way. 
+                             However, visually, we want text input on top of strokes. */}
+                        {textInput && textDraft && (
+                            <textarea
+                                ref={textInputRef}
+                                style={{
+                                    position: 'absolute',
+                                    left: textInput.x,
+                                    top: textInput.y - textInput.style.fontSize, // Adjust for baseline to match canvas text
+                                    fontSize: textInput.style.fontSize + 'px',
+                                    fontFamily: textInput.style.fontFamily,
+                                    fontWeight: textInput.style.bold ? 'bold' : 'normal',
+                                    fontStyle: textInput.style.italic ? 'italic' : 'normal',
+                                    textDecoration: textInput.style.underline ? 'underline' : 'none',
+                                    textAlign: textInput.style.align,
+                                    color: textInput.style.color,
+                                    // Auto-sized boxes grow with the text; resizing the box makes it wrap
+                                    width: textBoxWidth + 'px',
+                                    boxSizing: 'content-box',
+                                    height: (textDraft.height + textDraft.lineHeight) + 'px',
+                                    whiteSpace: textInput.width ? 'pre-wrap' : 'pre',
+                                    background: 'transparent',
+                                    border: '1px dashed #3b82f6',
+                                    outline: 'none',
+                                    resize: 'horizontal',
+                                    overflow: 'hidden',
+                                    padding: 0,
+                                    zIndex: 100, // Explicit High Z-Index
+                                    lineHeight: TEXT_LINE_HEIGHT
+                                }}
+                                value={textInput.text}
+                                onChange={(e) => setTextInput({ ...textInput, text: e.target.value })}
+                                onPointerDown={(e) => e.stopPropagation()} // Let us type
+                                onPointerUp={(e) => {
+                                    // The resize handle was dragged: fix the wrap width
+                                    const width = e.currentTarget.clientWidth;
+                                    if (Math.abs(width - textBoxWidth) > 1) {
+                                        setTextInput({ ...textInput, width });
+                                    }
+                                }}
+                            />
+                        )}
                     </div>
 
-                    {/* Text Input Overlay (Transformed space) */}
-                    {/* Move AFTER the canvas to ensure it is on top for clicks, but canvas has pointer-events-none so it is fine either way. 
-                         However, visually, we want text input on top of strokes. */}
-                    {textInput && (
-                        <textarea
-                            ref={textInputRef}
-                            style={{
-                                position: 'absolute',
-                                left: textInput.x,
-                                top: textInput.y - fontSize, // Adjust for baseline to match canvas text
-                                fontSize: fontSize + 'px',
-                                minWidth: '100px',
-                                color: 'black',
-                                background: 'transparent',
-                                border: '1px dashed #3b82f6',
-                                outline: 'none',
-                                resize: 'none',
-                                overflow: 'hidden',
-                                height: (fontSize * 1.5) + 'px',
-                                whiteSpace: 'nowrap',
-                                zIndex: 100, // Explicit High Z-Index
-                                fontFamily: 'sans-serif',
-                                lineHeight: '1'
-                            }}
-                            value={textInput.text}
-                            onChange={(e) => setTextInput({ ...textInput, text: e.target.value })}
-                            onPointerDown={(e) => e.stopPropagation()} // Let us type
-                        />
-                    )}
+                    {/* Info Overlay */}
+                    <div className="absolute bottom-2 right-2 bg-black/50 text-white text-xs px-2 py-1 rounded pointer-events-none">
+                        {Math.round(transform.scale * 100)}%
+                    </div>
                 </div>
 
-                {/* Info Overlay */}
-                <div className="absolute bottom-2 right-2 bg-black/50 text-white text-xs px-2 py-1 rounded pointer-events-none">
-                    {Math.round(transform.scale * 100)}%
-                </div>
+                {/* Note Text */}
+                {textPanel !== 'hidden' && (
+                    <NoteTextPanel
+                        noteId={noteId}
+                        content={noteContent}
+                        onChange={setNoteContent}
+                        layout={textPanel}
+                        onLayoutChange={setTextPanel}
+                        onClose={() => setTextPanel('hidden')}
+                        renderPreview={renderContentView}
+                    />
+                )}
             </div>
         </div>
     );
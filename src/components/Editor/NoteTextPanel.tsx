@@ -0,0 +1,182 @@
+import React, { useRef, useState } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { Link as LinkIcon, Maximize2, Minimize2, Pencil, Eye, X } from 'lucide-react';
+import { db } from '../../db/db';
+import { cn } from '../../lib/utils';
+import { fuzzyFilter } from '../../utils/fuzzy';
+import { noteLink } from '../../utils/wikiLinks';
+
+interface NoteTextPanelProps {
+    noteId: string;
+    content: string;
+    onChange: (content: string) => void;
+    layout: 'split' | 'full';
+    onLayoutChange: (layout: 'split' | 'full') => void;
+    onClose: () => void;
+    renderPreview: () => React.ReactNode;
+}
+
+// Text before the caret that is an unfinished [[link, e.g. "foo [[Mee" -> "Mee".
+// Once a # or | is typed the title is done (heading / display text follow), so completion stops.
+const OPEN_LINK = /\[\[([^[\]\n#|]*)$/;
+const MAX_SUGGESTIONS = 8;
+
+// Pixel position of a caret inside a textarea, via an off-screen copy with the same text styling
+function getCaretCoordinates(textarea: HTMLTextAreaElement, position: number): { top: number, left: number } {
+    const mirror = document.createElement('div');
+    const style = getComputedStyle(textarea);
+    for (const prop of ['fontFamily', 'fontSize', 'fontWeight', 'lineHeight', 'letterSpacing', 'padding', 'border', 'boxSizing', 'width', 'tabSize'] as const) {
+        mirror.style[prop] = style[prop];
+    }
+    mirror.style.position = 'absolute';
+    mirror.style.visibility = 'hidden';
+    mirror.style.whiteSpace = 'pre-wrap';
+    mirror.style.overflowWrap = 'break-word';
+    mirror.textContent = textarea.value.slice(0, position);
+    const marker = document.createElement('span');
+    marker.textContent = '\u200b';
+    mirror.appendChild(marker);
+    document.body.appendChild(mirror);
+    const coords = { top: marker.offsetTop + marker.offsetHeight - textarea.scrollTop, left: marker.offsetLeft - textarea.scrollLeft };
+    document.body.removeChild(mirror);
+    return coords;
+}
+
+export const NoteTextPanel: React.FC<NoteTextPanelProps> = ({ noteId, content, onChange, layout, onLayoutChange, onClose, renderPreview }) => {
+    const textareaRef = useRef<HTMLTextAreaElement>(null);
+    const [preview, setPreview] = useState(false);
+    const [completion, setCompletion] = useState<{ query: string, start: number, top: number, left: number } | null>(null);
+    const [highlighted, setHighlighted] = useState(0);
+
+    // Every other note, with the folder path it lives in
+    const candidates = useLiveQuery(async () => {
+        const [notes, folders] = await Promise.all([db.notes.toArray(), db.folders.toArray()]);
+        const folderById = new Map(folders.map(f => [f.id, f]));
+        const pathOf = (folderId: string | null) => {
+            const names: string[] = [];
+            // Bounded walk in case of a parent cycle
+            for (let f = folderId ? folderById.get(folderId) : undefined; f && names.length < 20; f = f.parentId ? folderById.get(f.parentId) : undefined) {
+                names.unshift(f.title);
+            }
+            return names.join(' / ');
+        };
+        return notes
+            .filter(n => n.id !== noteId && n.title)
+            .map(n => ({ id: n.id, title: n.title, path: pathOf(n.folderId) }))
+            .sort((a, b) => a.title.localeCompare(b.title));
+    }, [noteId]) ?? [];
+
+    const suggestions = completion ? fuzzyFilter(candidates, completion.query, c => c.title, MAX_SUGGESTIONS) : [];
+
+    const updateCompletion = (textarea: HTMLTextAreaElement) => {
+        const caret = textarea.selectionStart;
+        const match = textarea.selectionEnd === caret ? OPEN_LINK.exec(textarea.value.slice(0, caret)) : null;
+        if (!match) {
+            setCompletion(null);
+            return;
+        }
+        const { top, left } = getCaretCoordinates(textarea, caret);
+        setCompletion({ query: match[1], start: caret - match[1].length, top, left });
+        setHighlighted(0);
+    };
+
+    // Replace the typed query (and a closing ]] that may already follow) with an id link to the chosen note
+    const acceptSuggestion = (note: { id: string, title: string }) => {
+        const textarea = textareaRef.current;
+        if (!textarea || !completion) return;
+        const caret = textarea.selectionStart;
+        const after = content.slice(caret).replace(/^[^[\]\n]*\]\]/, '');
+        const inserted = noteLink(note.id, note.title) + ']]';
+        const next = content.slice(0, completion.start) + inserted + after;
+        const position = completion.start + inserted.length;
+        onChange(next);
+        setCompletion(null);
+        requestAnimationFrame(() => {
+            textarea.focus();
+            textarea.setSelectionRange(position, position);
+        });
+    };
+
+    const onKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+        if (!completion || suggestions.length === 0) return;
+        if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+            e.preventDefault();
+            const step = e.key === 'ArrowDown' ? 1 : -1;
+            setHighlighted(h => (h + step + suggestions.length) % suggestions.length);
+        } else if (e.key === 'Enter' || e.key === 'Tab') {
+            e.preventDefault();
+            acceptSuggestion(suggestions[Math.min(highlighted, suggestions.length - 1)]);
+        } else if (e.key === 'Escape') {
+            e.preventDefault();
+            setCompletion(null);
+        }
+    };
+
+    // Wrap the selection in [[...]]; with nothing selected, open an empty link and let autocomplete take over
+    const wrapLink = () => {
+        const textarea = textareaRef.current;
+        if (!textarea) return;
+        const { selectionStart: start, selectionEnd: end } = textarea;
+        const selected = content.slice(start, end).trim();
+        const inserted = `[[${selected}]]`;
+        onChange(content.slice(0, start) + inserted + content.slice(end));
+        const position = selected ? start + inserted.length : start + 2;
+        requestAnimationFrame(() => {
+            textarea.focus();
+            textarea.setSelectionRange(position, position);
+            if (!selected) updateCompletion(textarea);
+        });
+    };
+
+    return (
+        <div className={cn("flex flex-col bg-white min-h-0", layout === 'split' ? "w-2/5 min-w-[240px] border-l" : "flex-1")}>
+            <div className="flex items-center gap-1 px-2 py-1 border-b bg-muted/20 shrink-0">
+                <button onClick={() => setPreview(false)} className={cn("p-1 rounded", !preview && "bg-primary/20 text-primary")} title="Edit"><Pencil size={16} /></button>
+                <button onClick={() => setPreview(true)} className={cn("p-1 rounded", preview && "bg-primary/20 text-primary")} title="Preview"><Eye size={16} /></button>
+                <div className="h-5 w-px bg-border mx-1" />
+                <button onClick={wrapLink} disabled={preview} className="p-1 hover:bg-muted rounded disabled:opacity-30" title="Link selection ([[...]])"><LinkIcon size={16} /></button>
+                <div className="flex-1" />
+                <button onClick={() => onLayoutChange(layout === 'split' ? 'full' : 'split')} className="p-1 hover:bg-muted rounded" title={layout === 'split' ? "Text only" : "Side by side with the canvas"}>
+                    {layout === 'split' ? <Maximize2 size={16} /> : <Minimize2 size={16} />}
+                </button>
+                <button onClick={onClose} className="p-1 hover:bg-muted rounded" title="Close text panel"><X size={16} /></button>
+            </div>
+
+            {preview ? (
+                <div className="flex-1 overflow-auto p-4 text-base leading-relaxed">{renderPreview()}</div>
+            ) : (
+                <div className="flex-1 relative min-h-0">
+                    <textarea
+                        ref={textareaRef}
+                        value={content}
+                        onChange={e => { onChange(e.target.value); updateCompletion(e.target); }}
+                        onKeyDown={onKeyDown}
+                        onClick={e => updateCompletion(e.currentTarget)}
+                        onBlur={() => setCompletion(null)}
+                        onScroll={() => setCompletion(null)}
+                        className="absolute inset-0 w-full h-full p-4 resize-none outline-none font-mono text-base leading-relaxed"
+                        placeholder="テキストを入力… [[ でメモへのリンク"
+                    />
+                    {completion && suggestions.length > 0 && (
+                        <div
+                            className="absolute z-10 bg-white border rounded shadow-lg text-sm max-w-[80%] overflow-hidden"
+                            style={{ top: completion.top + 4, left: Math.min(completion.left, 200) }}
+                        >
+                            {suggestions.map((note, i) => (
+                                <div
+                                    key={note.id}
+                                    // Keep focus in the textarea so the caret position is still valid
+                                    onMouseDown={e => { e.preventDefault(); acceptSuggestion(note); }}
+                                    className={cn("px-3 py-1 cursor-pointer", i === highlighted && "bg-primary/20")}
+                                >
+                                    <div className="truncate">{note.title}</div>
+                                    {note.path && <div className="truncate text-xs text-gray-400">{note.path}</div>}
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { BookmarkPlus } from 'lucide-react';
+import { cn } from '../../lib/utils';
+import { loadSetting, saveSetting } from '../../utils/settings';
+
+export interface PenStyle {
+    color: string;
+    width: number;
+    opacity: number; // 0..1
+}
+
+export const PALETTE_COLORS = ['#000000', '#6b7280', '#ef4444', '#f97316', '#eab308', '#22c55e', '#3b82f6', '#a855f7'];
+
+export const DEFAULT_PEN_STYLE: PenStyle = { color: '#000000', width: 3, opacity: 1 };
+export const DEFAULT_HIGHLIGHTER_STYLE: PenStyle = { color: '#eab308', width: 20, opacity: 0.35 };
+
+interface PenPaletteProps {
+    style: PenStyle;
+    onChange: (style: PenStyle) => void;
+    showOpacity?: boolean;
+    showPresets?: boolean;
+}
+
+export const PenPalette: React.FC<PenPaletteProps> = ({ style, onChange, showOpacity = true, showPresets = true }) => {
+    const [presets, setPresets] = useState<PenStyle[]>(() => loadSetting<PenStyle[]>('penPresets', []));
+
+    const updatePresets = (next: PenStyle[]) => {
+        setPresets(next);
+        saveSetting('penPresets', next);
+    };
+
+    const savePreset = () => {
+        const exists = presets.some(p => p.color === style.color && p.width === style.width && p.opacity === style.opacity);
+        if (!exists) updatePresets([...presets, style]);
+    };
+
+    const deletePreset = (e: React.MouseEvent, index: number) => {
+        // Right click / long press removes a preset
+        e.preventDefault();
+        if (confirm("このプリセットを削除しますか？")) {
+            updatePresets(presets.filter((_, i) => i !== index));
+        }
+    };
+
+    return (
+        <div className="flex items-center gap-1 ml-2 bg-white/50 p-1 rounded border shrink-0">
+            {PALETTE_COLORS.map(color => (
+                <button
+                    key={color}
+                    onClick={() => onChange({ ...style, color })}
+                    className={cn("w-5 h-5 rounded-full border border-black/10", style.color === color && "ring-2 ring-offset-1 ring-primary")}
+                    style={{ backgroundColor: color }}
+                    title={color}
+                />
+            ))}
+            <input
+                type="color"
+                value={style.color}
+                onChange={e => onChange({ ...style, color: e.target.value })}
+                className="w-6 h-6 p-0 border-0 bg-transparent cursor-pointer"
+                title="Custom color"
+            />
+
+            {showOpacity && (
+                <input
+                    type="range"
+                    min="10"
+                    max="100"
+                    value={Math.round(style.opacity * 100)}
+                    onChange={e => onChange({ ...style, opacity: Number(e.target.value) / 100 })}
+                    className="w-14 h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+                    title={`Opacity ${Math.round(style.opacity * 100)}%`}
+                />
+            )}
+
+            {showPresets && (
+                <>
+                    <div className="h-5 w-px bg-border mx-1" />
+                    {presets.map((preset, i) => (
+                        <button
+                            key={i}
+                            onClick={() => onChange(preset)}
+                            onContextMenu={e => deletePreset(e, i)}
+                            className="w-6 h-6 rounded flex items-center justify-center hover:bg-muted"
+                            title={`${preset.color} / ${preset.width}px / ${Math.round(preset.opacity * 100)}%`}
+                        >
+                            <span
+                                className="rounded-full block"
+                                style={{
+                                    backgroundColor: preset.color,
+                                    opacity: preset.opacity,
+                                    width: Math.min(Math.max(preset.width, 4), 18),
+                                    height: Math.min(Math.max(preset.width, 4), 18)
+                                }}
+                            />
+                        </button>
+                    ))}
+                    <button onClick={savePreset} className="p-1 hover:bg-muted rounded" title="Save pen preset">
+                        <BookmarkPlus size={16} />
+                    </button>
+                </>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,98 @@
+import React from 'react';
+import { Bold, Italic, Underline, AlignLeft, AlignCenter, AlignRight, Type } from 'lucide-react';
+import { cn } from '../../lib/utils';
+import { TEXT_FONTS } from '../../utils/textLayout';
+import type { TextElement } from '../../utils/geometry';
+import { PenPalette } from './PenPalette';
+
+export interface TextStyle {
+    color: string;
+    fontSize: number;
+    fontFamily: string;
+    bold: boolean;
+    italic: boolean;
+    underline: boolean;
+    align: 'left' | 'center' | 'right';
+}
+
+export const DEFAULT_TEXT_STYLE: TextStyle = {
+    color: '#000000', fontSize: 24, fontFamily: 'sans-serif', bold: false, italic: false, underline: false, align: 'left'
+};
+
+// Element fields for a style; defaults are left out so plain text stays small
+export const textStyleFields = (style: TextStyle): Pick<TextElement, 'color' | 'fontSize' | 'fontFamily' | 'bold' | 'italic' | 'underline' | 'align'> => ({
+    color: style.color,
+    fontSize: style.fontSize,
+    ...(style.fontFamily !== 'sans-serif' ? { fontFamily: style.fontFamily } : {}),
+    ...(style.bold ? { bold: true } : {}),
+    ...(style.italic ? { italic: true } : {}),
+    ...(style.underline ? { underline: true } : {}),
+    ...(style.align !== 'left' ? { align: style.align } : {})
+});
+
+export const textStyleOf = (el: TextElement): TextStyle => ({
+    color: el.color,
+    fontSize: el.fontSize,
+    fontFamily: el.fontFamily || 'sans-serif',
+    bold: !!el.bold,
+    italic: !!el.italic,
+    underline: !!el.underline,
+    align: el.align || 'left'
+});
+
+interface TextStyleBarProps {
+    style: TextStyle;
+    onChange: (style: TextStyle) => void;
+}
+
+export const TextStyleBar: React.FC<TextStyleBarProps> = ({ style, onChange }) => {
+    const toggle = (key: 'bold' | 'italic' | 'underline') => onChange({ ...style, [key]: !style[key] });
+    const ALIGNS = [
+        { value: 'left' as const, icon: AlignLeft },
+        { value: 'center' as const, icon: AlignCenter },
+        { value: 'right' as const, icon: AlignRight }
+    ];
+
+    return (
+        <>
+            <PenPalette
+                style={{ color: style.color, width: style.fontSize, opacity: 1 }}
+                onChange={pen => onChange({ ...style, color: pen.color })}
+                showOpacity={false}
+                showPresets={false}
+            />
+
+            <div className="flex items-center gap-1 ml-2 bg-white/50 p-1 rounded border shrink-0">
+                <Type size={14} className="text-gray-500" />
+                <input
+                    type="number"
+                    min="10"
+                    max="100"
+                    value={style.fontSize}
+                    onChange={e => onChange({ ...style, fontSize: Number(e.target.value) })}
+                    className="w-12 h-6 text-sm border rounded px-1"
+                />
+                <select
+                    value={style.fontFamily}
+                    onChange={e => onChange({ ...style, fontFamily: e.target.value })}
+                    className="h-6 text-xs border rounded"
+                    title="Font"
+                >
+                    {TEXT_FONTS.map(font => <option key={font.value} value={font.value}>{font.label}</option>)}
+                </select>
+            </div>
+
+            <div className="flex items-center ml-2 bg-white/50 rounded border overflow-hidden shrink-0">
+                <button onClick={() => toggle('bold')} className={cn("p-1", style.bold && "bg-primary/20 text-primary")} title="Bold"><Bold size={16} /></button>
+                <button onClick={() => toggle('italic')} className={cn("p-1", style.italic && "bg-primary/20 text-primary")} title="Italic"><Italic size={16} /></button>
+                <button onClick={() => toggle('underline')} className={cn("p-1", style.underline && "bg-primary/20 text-primary")} title="Underline"><Underline size={16} /></button>
+                <div className="h-5 w-px bg-border mx-1" />
+                {ALIGNS.map(({ value, icon: Icon }) => (
+                    <button key={value} onClick={() => onChange({ ...style, align: value })} className={cn("p-1", style.align === value && "bg-primary/20 text-primary")} title={`Align ${value}`}>
+                        <Icon size={16} />
+                    </button>
+                ))}
+            </div>
+        </>
+    );
+};
@@ -0,0 +1,140 @@
+import React, { useMemo, useState } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { X } from 'lucide-react';
+import { v4 as uuidv4 } from 'uuid';
+import { db } from '../../db/db';
+import { findBrokenLinks, linkTargetKey, rewriteNoteLinks, type LinkRewrite } from '../../utils/noteLinks';
+import type { WikiLink } from '../../utils/wikiLinks';
+
+interface BrokenLinksViewProps {
+    onSelectNote: (noteId: string) => void;
+    onClose: () => void;
+}
+
+// A broken link entry is one missing target within one note
+const entryKey = (noteId: string, key: string) => `${noteId}\n${key}`;
+
+// Title of the note that would fix a link: id links carry it as display text
+const missingTitle = (link: WikiLink) => link.noteId ? link.display || '無題のメモ' : link.target;
+
+export const BrokenLinksView: React.FC<BrokenLinksViewProps> = ({ onSelectNote, onClose }) => {
+    const notes = useLiveQuery(() => db.notes.toArray(), []);
+    const groups = useMemo(() => notes ? findBrokenLinks(notes) : [], [notes]);
+    // Everything starts selected; entries found later are selected too
+    const [excluded, setExcluded] = useState<Set<string>>(new Set());
+    const [retargetId, setRetargetId] = useState('');
+
+    const selected = groups.flatMap(g => g.links.filter(l => !excluded.has(entryKey(g.noteId, l.key))).map(l => ({ group: g, link: l })));
+    const targets = useMemo(() => (notes || []).filter(n => n.title).sort((a, b) => a.title.localeCompare(b.title)), [notes]);
+
+    const toggle = (key: string) => setExcluded(prev => {
+        const next = new Set(prev);
+        if (next.has(key)) next.delete(key);
+        else next.add(key);
+        return next;
+    });
+
+    // Apply `rewrite` to the selected links of every note that has any
+    const rewriteSelected = async (rewrite: LinkRewrite) => {
+        await db.transaction('rw', db.notes, async () => {
+            for (const group of groups) {
+                const keys = new Set(group.links.filter(l => !excluded.has(entryKey(group.noteId, l.key))).map(l => l.key));
+                if (keys.size === 0) continue;
+                const note = await db.notes.get(group.noteId);
+                if (!note) continue;
+                const changes = rewriteNoteLinks(note, link => keys.has(linkTargetKey(link)) ? rewrite(link) : null);
+                if (changes) await db.notes.update(note.id, { ...changes, updatedAt: Date.now() });
+            }
+        });
+    };
+
+    // One note per missing target, in the folder of the first note linking to it
+    const createMissing = async () => {
+        const missing = new Map<string, { id: string, title: string, folderId: string | null }>();
+        for (const { group, link } of selected) {
+            if (missing.has(link.key)) continue;
+            missing.set(link.key, {
+                id: link.link.noteId ?? uuidv4(),
+                title: missingTitle(link.link),
+                folderId: group.folderId
+            });
+        }
+        if (!confirm(`${missing.size} 件のメモを作成しますか？`)) return;
+        await db.transaction('rw', db.notes, async () => {
+            for (const note of missing.values()) {
+                await db.notes.add({ ...note, content: '', createdAt: Date.now(), updatedAt: Date.now() });
+            }
+        });
+    };
+
+    const retarget = async () => {
+        const target = targets.find(n => n.id === retargetId);
+        if (!target) return;
+        if (!confirm(`選択した ${selected.length} 件のリンクを「${target.title}」へ付け替えますか？`)) return;
+        await rewriteSelected(link => ({ ...link, target: '', noteId: target.id, display: link.display ?? target.title }));
+    };
+
+    const strip = async () => {
+        if (!confirm(`選択した ${selected.length} 件のリンクを解除しますか？（本文の文字は残ります）`)) return;
+        await rewriteSelected(() => 'unlink');
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 bg-background/80 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+            <div className="bg-card border border-border rounded-xl shadow-xl w-full max-w-2xl max-h-full flex flex-col" onClick={e => e.stopPropagation()}>
+                <div className="flex items-center justify-between p-4 border-b border-border">
+                    <h2 className="font-bold text-lg">リンク切れチェック</h2>
+                    <button onClick={onClose} className="p-2 hover:bg-accent rounded-md"><X size={20} /></button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto p-4">
+                    {!notes && <div className="text-center text-muted-foreground">読み込み中...</div>}
+                    {notes && groups.length === 0 && <div className="text-center text-muted-foreground">リンク切れはありません</div>}
+                    {groups.map(group => (
+                        <div key={group.noteId} className="mb-4">
+                            <button onClick={() => { onSelectNote(group.noteId); onClose(); }} className="font-bold hover:underline text-left">
+                                {group.title || '無題のメモ'}
+                            </button>
+                            {group.links.map(link => {
+                                const key = entryKey(group.noteId, link.key);
+                                return (
+                                    <label key={key} className="flex items-start gap-2 py-1 pl-2 text-sm cursor-pointer">
+                                        <input type="checkbox" checked={!excluded.has(key)} onChange={() => toggle(key)} className="mt-1" />
+                                        <div className="flex-1 min-w-0">
+                                            <div>
+                                                <span className="text-red-600">{missingTitle(link.link)}</span>
+                                                {link.count > 1 && <span className="text-muted-foreground"> ×{link.count}</span>}
+                                            </div>
+                                            {link.snippets.map((snippet, i) => (
+                                                <div key={i} className="text-xs text-muted-foreground truncate">{snippet}</div>
+                                            ))}
+                                        </div>
+                                    </label>
+                                );
+                            })}
+                        </div>
+                    ))}
+                </div>
+
+                {groups.length > 0 && (
+                    <div className="flex flex-wrap items-center gap-2 p-4 border-t border-border text-sm">
+                        <button onClick={createMissing} disabled={selected.length === 0} className="px-3 py-1.5 bg-primary text-primary-foreground rounded-full disabled:opacity-50">
+                            リンク先を作成
+                        </button>
+                        <select value={retargetId} onChange={e => setRetargetId(e.target.value)} className="h-8 border rounded px-1 max-w-[12rem] bg-background">
+                            <option value="">付け替え先のメモ…</option>
+                            {targets.map(n => <option key={n.id} value={n.id}>{n.title}</option>)}
+                        </select>
+                        <button onClick={retarget} disabled={selected.length === 0 || !retargetId} className="px-3 py-1.5 bg-secondary text-secondary-foreground rounded-full disabled:opacity-50">
+                            付け替え
+                        </button>
+                        <button onClick={strip} disabled={selected.length === 0} className="px-3 py-1.5 bg-destructive/10 text-destructive rounded-full disabled:opacity-50">
+                            リンクを解除
+                        </button>
+                        <span className="ml-auto text-muted-foreground">{selected.length} 件選択中</span>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -1,17 +1,20 @@
 import React from 'react';
 import { useLiveQuery } from 'dexie-react-hooks';
 import { db, type Folder } from '../../db/db';
-import { Plus, Folder as FolderIcon, Trash2, Star, Copy } from 'lucide-react';
+import { Plus, Folder as FolderIcon, Trash2, Star, Copy, Unlink, Search, Settings } from 'lucide-react';
 import { v4 as uuidv4 } from 'uuid';
 import { NoteGraphView } from './NoteGraphView';
+import { BrokenLinksView } from './BrokenLinksView';
+import { SettingsView } from './SettingsView';
 
 interface NoteListProps {
     folderId: string | null;
     onSelectNote: (noteId: string) => void;
     onSelectFolder: (folderId: string) => void;
+    onSearch: () => void;
 }
 
-export const NoteList: React.FC<NoteListProps> = ({ folderId, onSelectNote, onSelectFolder }) => {
+export const NoteList: React.FC<NoteListProps> = ({ folderId, onSelectNote, onSelectFolder, onSearch }) => {
     // Notes: sort by Favorite then Date
     const notes = useLiveQuery(
         async () => {
@@ -282,6 +285,9 @@ export const NoteList: React.FC<NoteListProps> = ({ folderId, onSelectNote, onSe
         setSelectedIds(new Set());
     };
 
+    const [showBrokenLinks, setShowBrokenLinks] = React.useState(false);
+    const [showSettings, setShowSettings] = React.useState(false);
+
     const [dragOverFolderId, setDragOverFolderId] = React.useState<string | null>(null);
 
     const handleDragStart = (e: React.DragEvent, type: 'note' | 'folder', id: string) => {
@@ -418,6 +424,15 @@ export const NoteList: React.FC<NoteListProps> = ({ folderId, onSelectNote, onSe
                             <button onClick={toggleSelectionMode} className="p-3 bg-secondary text-secondary-foreground rounded-full shadow-lg hover:bg-secondary/80 transition-transform active:scale-95" title="選択">
                                 <div className="w-6 h-6 border-2 border-current rounded-md flex items-center justify-center text-[10px]">✓</div>
                             </button>
+                            <button onClick={onSearch} className="p-3 bg-secondary text-secondary-foreground rounded-full shadow-lg hover:bg-secondary/80 transition-transform active:scale-95" title="検索 (Ctrl+K)">
+                                <Search size={24} />
+                            </button>
+                            <button onClick={() => setShowBrokenLinks(true)} className="p-3 bg-secondary text-secondary-foreground rounded-full shadow-lg hover:bg-secondary/80 transition-transform active:scale-95" title="リンク切れチェック">
+                                <Unlink size={24} />
+                            </button>
+                            <button onClick={() => setShowSettings(true)} className="p-3 bg-secondary text-secondary-foreground rounded-full shadow-lg hover:bg-secondary/80 transition-transform active:scale-95" title="設定（バックアップ / 復元）">
+                                <Settings size={24} />
+                            </button>
                             <button onClick={createFolder} className="p-3 bg-secondary text-secondary-foreground rounded-full shadow-lg hover:bg-secondary/80 transition-transform active:scale-95" aria-label="Create Folder" title="新規フォルダ">
                                 <FolderIcon size={24} />
                             </button>
@@ -527,6 +542,8 @@ export const NoteList: React.FC<NoteListProps> = ({ folderId, onSelectNote, onSe
                 </div>
             </div>
 
+            {showBrokenLinks && <BrokenLinksView onSelectNote={onSelectNote} onClose={() => setShowBrokenLinks(false)} />}
+            {showSettings && <SettingsView onClose={() => setShowSettings(false)} />}
         </div>
     );
 };
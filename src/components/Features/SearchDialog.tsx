@@ -0,0 +1,158 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { Search, X, Type, PenLine } from 'lucide-react';
+import { db } from '../../db/db';
+import { cn } from '../../lib/utils';
+import { highlightSnippet, searchNotes, type SearchResult, type SnippetPart } from '../../utils/search';
+import { normalizeText } from '../../utils/searchIndex';
+
+interface SearchDialogProps {
+    onOpen: (noteId: string, elementIds?: string[]) => void;
+    onClose: () => void;
+}
+
+const Highlighted: React.FC<{ parts: SnippetPart[] }> = ({ parts }) => (
+    <>{parts.map((p, i) => p.hit ? <mark key={i} className="bg-yellow-200 rounded-sm">{p.text}</mark> : <React.Fragment key={i}>{p.text}</React.Fragment>)}</>
+);
+
+export const SearchDialog: React.FC<SearchDialogProps> = ({ onOpen, onClose }) => {
+    const [query, setQuery] = useState('');
+    const [folderId, setFolderId] = useState(''); // '' = everywhere
+    const [results, setResults] = useState<SearchResult[]>([]);
+    const [error, setError] = useState<string | null>(null);
+    const [highlighted, setHighlighted] = useState(0);
+
+    const folders = useLiveQuery(() => db.folders.toArray(), []) ?? [];
+
+    // Folder paths for labels, and each folder with everything below it for the filter
+    const { pathOf, subtreeOf } = useMemo(() => {
+        const byId = new Map(folders.map(f => [f.id, f]));
+        const pathOf = (id: string | null) => {
+            const names: string[] = [];
+            for (let f = id ? byId.get(id) : undefined; f && names.length < 20; f = f.parentId ? byId.get(f.parentId) : undefined) names.unshift(f.title);
+            return names.join(' / ');
+        };
+        const subtreeOf = (id: string) => {
+            const ids = new Set<string | null>([id]);
+            // Repeat until nothing new is added; parents may be listed after their children
+            for (let added = true; added;) {
+                added = false;
+                for (const f of folders) {
+                    if (f.parentId && ids.has(f.parentId) && !ids.has(f.id)) {
+                        ids.add(f.id);
+                        added = true;
+                    }
+                }
+            }
+            return ids;
+        };
+        return { pathOf, subtreeOf };
+    }, [folders]);
+
+    // Debounced, and only the latest query's results are shown
+    useEffect(() => {
+        let cancelled = false;
+        const timer = setTimeout(async () => {
+            try {
+                const found = await searchNotes(query, { folderIds: folderId ? subtreeOf(folderId) : undefined });
+                if (!cancelled) {
+                    setResults(found);
+                    setError(null);
+                    setHighlighted(0);
+                }
+            } catch (e: any) {
+                console.error('Search failed:', e);
+                if (!cancelled) {
+                    setResults([]);
+                    setError(e.message);
+                }
+            }
+        }, 150);
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [query, folderId, subtreeOf]);
+
+    const open = (result: SearchResult, elementIds?: string[]) => {
+        // Without a chosen match, jump to the best one if it is on the canvas
+        onOpen(result.note.id, elementIds ?? result.matches[0]?.elementIds);
+        onClose();
+    };
+
+    const onKeyDown = (e: React.KeyboardEvent) => {
+        if (e.key === 'Escape') {
+            e.preventDefault();
+            onClose();
+        } else if (results.length > 0 && (e.key === 'ArrowDown' || e.key === 'ArrowUp')) {
+            e.preventDefault();
+            const step = e.key === 'ArrowDown' ? 1 : -1;
+            setHighlighted(h => (h + step + results.length) % results.length);
+        } else if (e.key === 'Enter' && results[highlighted]) {
+            e.preventDefault();
+            open(results[highlighted]);
+        }
+    };
+
+    const words = normalizeText(query).split(/\s+/).filter(Boolean);
+
+    return (
+        <div className="fixed inset-0 z-[100] bg-background/80 backdrop-blur-sm flex items-start justify-center p-4 pt-[10vh]" onClick={onClose}>
+            <div className="bg-card border border-border rounded-xl shadow-xl w-full max-w-2xl max-h-[80vh] flex flex-col" onClick={e => e.stopPropagation()}>
+                <div className="flex items-center gap-2 p-3 border-b border-border">
+                    <Search size={18} className="text-muted-foreground shrink-0" />
+                    <input
+                        autoFocus
+                        value={query}
+                        onChange={e => setQuery(e.target.value)}
+                        onKeyDown={onKeyDown}
+                        placeholder="メモを検索（タイトル・本文・キャンバスの文字・手書き）"
+                        className="flex-1 bg-transparent outline-none text-base"
+                    />
+                    <select value={folderId} onChange={e => setFolderId(e.target.value)} className="h-8 border rounded px-1 text-sm max-w-[10rem] bg-background" title="Folder">
+                        <option value="">すべてのフォルダ</option>
+                        {folders.map(f => ({ id: f.id, path: pathOf(f.id) })).sort((a, b) => a.path.localeCompare(b.path)).map(f => (
+                            <option key={f.id} value={f.id}>{f.path}</option>
+                        ))}
+                    </select>
+                    <button onClick={onClose} className="p-1 hover:bg-accent rounded-md"><X size={18} /></button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto">
+                    {error && (
+                        <div className="p-6 text-center text-red-600 text-sm">検索に失敗しました: {error}</div>
+                    )}
+                    {!error && words.length > 0 && results.length === 0 && (
+                        <div className="p-6 text-center text-muted-foreground text-sm">見つかりませんでした</div>
+                    )}
+                    {results.map((result, i) => (
+                        <div
+                            key={result.note.id}
+                            onClick={() => open(result)}
+                            onMouseEnter={() => setHighlighted(i)}
+                            className={cn("px-4 py-2 border-b border-border/50 cursor-pointer", i === highlighted && "bg-primary/10")}
+                        >
+                            <div className="flex items-baseline gap-2">
+                                <span className="font-bold truncate">
+                                    <Highlighted parts={highlightSnippet(result.note.title || '無題のメモ', words) ?? [{ text: result.note.title || '無題のメモ', hit: false }]} />
+                                </span>
+                                {result.note.folderId && <span className="text-xs text-muted-foreground truncate">{pathOf(result.note.folderId)}</span>}
+                            </div>
+                            {result.matches.map((match, j) => (
+                                <div
+                                    key={j}
+                                    onClick={match.elementIds ? e => { e.stopPropagation(); open(result, match.elementIds); } : undefined}
+                                    className="flex items-center gap-1 text-xs text-muted-foreground"
+                                >
+                                    {match.kind === 'text' && <Type size={12} className="shrink-0" />}
+                                    {match.kind === 'ink' && <PenLine size={12} className="shrink-0" />}
+                                    <span className="truncate"><Highlighted parts={match.parts} /></span>
+                                </div>
+                            ))}
+                        </div>
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,157 @@
+import React, { useRef, useState } from 'react';
+import { X, Download, Upload, FolderOpen } from 'lucide-react';
+import { backupFileName, createBackup, parseBackup, restoreBackup, type Backup, type CollisionMode, type RestoreCounts } from '../../utils/backup';
+import { downloadBlob } from '../../utils/exportNote';
+import { exportVault, readVaultDirectory, readVaultZip, vaultFileName, vaultToBackup } from '../../utils/vault';
+
+interface SettingsViewProps {
+    onClose: () => void;
+}
+
+const COLLISION_MODES: { value: CollisionMode, label: string, description: string }[] = [
+    { value: 'skip', label: 'スキップ', description: '同じメモ・フォルダが既にある場合は今のものを残します' },
+    { value: 'overwrite', label: '上書き', description: '同じメモ・フォルダが既にある場合はバックアップの内容で置き換えます' },
+    { value: 'copy', label: 'コピーとして読み込む', description: '同じメモ・フォルダが既にある場合は別のコピーとして追加します' }
+];
+
+const describeCounts = (label: string, c: RestoreCounts) =>
+    `${label}: 追加 ${c.added} / 上書き ${c.overwritten} / コピー ${c.copied} / スキップ ${c.skipped}`;
+
+export const SettingsView: React.FC<SettingsViewProps> = ({ onClose }) => {
+    const [collisionMode, setCollisionMode] = useState<CollisionMode>('skip');
+    const [status, setStatus] = useState<string | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const vaultZipInputRef = useRef<HTMLInputElement>(null);
+    const vaultDirInputRef = useRef<HTMLInputElement>(null);
+
+    const exportBackup = async () => {
+        setStatus('バックアップを作成中...');
+        try {
+            const backup = await createBackup();
+            downloadBlob(new Blob([JSON.stringify(backup)], { type: 'application/json' }), backupFileName());
+        } catch (e: any) {
+            console.error('Backup failed:', e);
+            alert(`バックアップに失敗しました: ${e.message}`);
+        } finally {
+            setStatus(null);
+        }
+    };
+
+    // Confirm, write and report; `load` turns the chosen file(s) into a backup
+    const runImport = async (load: () => Promise<Backup>) => {
+        setStatus('読み込み中...');
+        try {
+            const backup = await load();
+            const mode = COLLISION_MODES.find(m => m.value === collisionMode)!;
+            const message = `フォルダ ${backup.folders.length} 件、メモ ${backup.notes.length} 件、画像 ${backup.images.length} 件を読み込みます。\n既にあるもの: ${mode.label}\n\nよろしいですか？`;
+            if (!confirm(message)) return;
+            const summary = await restoreBackup(backup, collisionMode);
+            alert(['読み込みました。', describeCounts('フォルダ', summary.folders), describeCounts('メモ', summary.notes), describeCounts('画像', summary.images)].join('\n'));
+        } catch (e: any) {
+            console.error('Import failed:', e);
+            alert(`読み込みに失敗しました: ${e.message}`);
+        } finally {
+            setStatus(null);
+        }
+    };
+
+    // Allow choosing the same file again
+    const takeFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from(e.target.files || []);
+        e.target.value = '';
+        return files;
+    };
+
+    const importBackup = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const [file] = takeFiles(e);
+        if (file) runImport(async () => parseBackup(await file.text()));
+    };
+
+    const exportMarkdown = async () => {
+        setStatus('Markdown を書き出し中...');
+        try {
+            downloadBlob(await exportVault(), vaultFileName());
+        } catch (e: any) {
+            console.error('Vault export failed:', e);
+            alert(`書き出しに失敗しました: ${e.message}`);
+        } finally {
+            setStatus(null);
+        }
+    };
+
+    const importVaultZip = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const [file] = takeFiles(e);
+        if (file) runImport(async () => vaultToBackup(readVaultZip(new Uint8Array(await file.arrayBuffer()))));
+    };
+
+    const importVaultDirectory = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const files = takeFiles(e);
+        if (files.length > 0) runImport(async () => vaultToBackup(await readVaultDirectory(files)));
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 bg-background/80 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+            <div className="bg-card border border-border rounded-xl shadow-xl w-full max-w-lg max-h-full flex flex-col" onClick={e => e.stopPropagation()}>
+                <div className="flex items-center justify-between p-4 border-b border-border">
+                    <h2 className="font-bold text-lg">設定</h2>
+                    <button onClick={onClose} className="p-2 hover:bg-accent rounded-md"><X size={20} /></button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto p-4 space-y-4 text-sm">
+                    <section className="space-y-2">
+                        <h3 className="font-bold">バックアップ</h3>
+                        <p className="text-muted-foreground">
+                            すべてのフォルダ・メモ・画像を 1 つのファイルに書き出します。データはこの端末のブラウザにしか保存されていないため、定期的なバックアップをおすすめします。
+                        </p>
+                        <button onClick={exportBackup} disabled={!!status} className="flex items-center gap-2 px-4 py-2 bg-primary text-primary-foreground rounded-full disabled:opacity-50">
+                            <Download size={16} /> バックアップを書き出す
+                        </button>
+                    </section>
+
+                    <section className="space-y-2">
+                        <h3 className="font-bold">復元</h3>
+                        <p className="text-muted-foreground">バックアップや Markdown の内容を今のデータに追加します。既にあるメモ・フォルダの扱い:</p>
+                        <div className="space-y-1">
+                            {COLLISION_MODES.map(mode => (
+                                <label key={mode.value} className="flex items-start gap-2 cursor-pointer">
+                                    <input type="radio" name="collisionMode" checked={collisionMode === mode.value} onChange={() => setCollisionMode(mode.value)} className="mt-1" />
+                                    <span>
+                                        <span className="font-medium">{mode.label}</span>
+                                        <span className="block text-xs text-muted-foreground">{mode.description}</span>
+                                    </span>
+                                </label>
+                            ))}
+                        </div>
+                        <button onClick={() => fileInputRef.current?.click()} disabled={!!status} className="flex items-center gap-2 px-4 py-2 bg-secondary text-secondary-foreground rounded-full disabled:opacity-50">
+                            <Upload size={16} /> バックアップから復元
+                        </button>
+                        <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={importBackup} />
+                    </section>
+
+                    <section className="space-y-2">
+                        <h3 className="font-bold">Markdown (Obsidian)</h3>
+                        <p className="text-muted-foreground">
+                            フォルダをディレクトリ、メモを 1 つずつの .md ファイルにした zip を書き出します。[[リンク]] はそのまま使え、手書きは SVG として埋め込まれます。
+                            Markdown のフォルダ（または zip）を読み込むこともできます。
+                        </p>
+                        <div className="flex flex-wrap gap-2">
+                            <button onClick={exportMarkdown} disabled={!!status} className="flex items-center gap-2 px-4 py-2 bg-primary text-primary-foreground rounded-full disabled:opacity-50">
+                                <Download size={16} /> Markdown で書き出す
+                            </button>
+                            <button onClick={() => vaultZipInputRef.current?.click()} disabled={!!status} className="flex items-center gap-2 px-4 py-2 bg-secondary text-secondary-foreground rounded-full disabled:opacity-50">
+                                <Upload size={16} /> zip を読み込む
+                            </button>
+                            <button onClick={() => vaultDirInputRef.current?.click()} disabled={!!status} className="flex items-center gap-2 px-4 py-2 bg-secondary text-secondary-foreground rounded-full disabled:opacity-50">
+                                <FolderOpen size={16} /> フォルダを読み込む
+                            </button>
+                        </div>
+                        <input ref={vaultZipInputRef} type="file" accept="application/zip,.zip" className="hidden" onChange={importVaultZip} />
+                        <input ref={vaultDirInputRef} type="file" multiple className="hidden" onChange={importVaultDirectory} {...{ webkitdirectory: '' }} />
+                    </section>
+
+                    {status && <div className="text-muted-foreground animate-pulse">{status}</div>}
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -1,4 +1,10 @@
-import Dexie, { type EntityTable } from 'dexie';
+import Dexie, { type EntityTable, type Table } from 'dexie';
+import { getLocalClipboard } from '../utils/clipboard';
+import type { HistoryEntry } from '../utils/history';
+import type { InkText } from '../utils/inkIndex';
+import type { Layer } from '../utils/layers';
+import { buildTitleIndex, rewriteNoteLinks, toIdLink } from '../utils/noteLinks';
+import { noteTerms, searchFields, type SearchTerm } from '../utils/searchIndex';
 
 export interface Folder {
     id: string;
@@ -14,17 +20,79 @@ export interface Note {
     title: string;
     content: string; // Text content
     drawings?: any[]; // Vector strokes
+    layers?: Layer[]; // Bottom first; notes without layers get the defaults
+    ink?: InkText[]; // Handwriting recognized in the background, for search
     isFavorite?: boolean; // New field for favorite status
     createdAt: number;
     updatedAt: number;
 }
 
+// Undo/redo stack of a note, kept so undo survives closing the note
+export interface NoteHistory {
+    noteId: string;
+    entries: HistoryEntry[];
+    step: number; // Number of entries currently applied
+    updatedAt: number;
+}
+
+// Image data for canvas image elements; kept out of notes.drawings so notes stay small
+export interface StoredImage {
+    id: string;
+    blob: Blob;
+    width: number; // Natural size in px
+    height: number;
+    createdAt: number;
+}
+
 const db = new Dexie('MemoAppDB') as Dexie & {
     folders: EntityTable<Folder, 'id'>,
-    notes: EntityTable<Note, 'id'>
+    notes: EntityTable<Note, 'id'>,
+    history: EntityTable<NoteHistory, 'noteId'>,
+    images: EntityTable<StoredImage, 'id'>,
+    searchTerms: Table<SearchTerm, [string, string]>
 };
 
 // Schema registration
+// v7: full-text search index, one row per (note, term)
+db.version(7).stores({
+    folders: 'id, name, parentId, createdAt, updatedAt',
+    notes: 'id, title, folderId, isFavorite, createdAt, updatedAt',
+    history: 'noteId, updatedAt',
+    images: 'id, createdAt',
+    searchTerms: '[noteId+term], term, noteId'
+}).upgrade(async trans => {
+    const notes: Note[] = await trans.table('notes').toArray();
+    await trans.table('searchTerms').bulkPut(notes.flatMap(noteTerms));
+});
+
+// v6: title links ([[Title]], element link) become id links so renames don't break them
+db.version(6).stores({
+    folders: 'id, name, parentId, createdAt, updatedAt',
+    notes: 'id, title, folderId, isFavorite, createdAt, updatedAt',
+    history: 'noteId, updatedAt',
+    images: 'id, createdAt'
+}).upgrade(async trans => {
+    const notes: Note[] = await trans.table('notes').toArray();
+    const rewrite = toIdLink(buildTitleIndex(notes));
+    for (const note of notes) {
+        const changes = rewriteNoteLinks(note, rewrite);
+        if (changes) await trans.table('notes').update(note.id, changes);
+    }
+});
+
+db.version(5).stores({
+    folders: 'id, name, parentId, createdAt, updatedAt',
+    notes: 'id, title, folderId, isFavorite, createdAt, updatedAt',
+    history: 'noteId, updatedAt',
+    images: 'id, createdAt'
+});
+
+db.version(4).stores({
+    folders: 'id, name, parentId, createdAt, updatedAt',
+    notes: 'id, title, folderId, isFavorite, createdAt, updatedAt',
+    history: 'noteId, updatedAt'
+});
+
 db.version(3).stores({
     folders: 'id, name, parentId, createdAt, updatedAt',
     notes: 'id, title, folderId, isFavorite, createdAt, updatedAt'
@@ -39,4 +107,81 @@ db.version(2).stores({
     notes: 'id, title, folderId, createdAt, updatedAt'
 });
 
+// Searchable text each note was last indexed with, so autosaves that change nothing skip the rewrite
+const indexedSources = new Map<string, string>();
+
+async function reindexNote(noteId: string) {
+    const note = await db.notes.get(noteId);
+    const source = note ? JSON.stringify(searchFields(note)) : '';
+    if (note && indexedSources.get(noteId) === source) return;
+    indexedSources.set(noteId, source);
+    await db.transaction('rw', db.searchTerms, async () => {
+        await db.searchTerms.where('noteId').equals(noteId).delete();
+        if (note) await db.searchTerms.bulkPut(noteTerms(note));
+    });
+}
+
+const REINDEX_DELAY = 1000; // Autosave writes on every drag frame; index once the note settles
+const reindexTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+const scheduleReindex = (noteId: string) => {
+    clearTimeout(reindexTimers.get(noteId));
+    reindexTimers.set(noteId, setTimeout(() => {
+        reindexTimers.delete(noteId);
+        reindexNote(noteId).catch(e => {
+            indexedSources.delete(noteId); // So the next write tries again
+            console.error(`Indexing note ${noteId} for search failed:`, e);
+        });
+    }, REINDEX_DELAY));
+};
+
+// Keep the search index in step with every write (editor autosave, link rewrites, new notes)
+db.notes.hook('creating', (noteId, _note, trans) => {
+    trans.on('complete', () => scheduleReindex(noteId));
+});
+
+db.notes.hook('updating', (mods, noteId, _note, trans) => {
+    if (Object.keys(mods).some(key => /^(title|content|drawings|ink)/.test(key))) {
+        trans.on('complete', () => scheduleReindex(noteId));
+    }
+});
+
+// Image ids placed by elements, and by the elements an undo history can bring back
+const imageIdsIn = (elements: any[] = []): string[] => elements.filter(el => el?.type === 'image').map(el => el.imageId);
+const historyImageIds = (history?: NoteHistory): string[] => (history?.entries || []).flatMap(entry => entry.ops.flatMap(op =>
+    op.type === 'layers' ? [] : op.type === 'update' ? imageIdsIn([op.before, op.after]) : imageIdsIn([op.element])
+));
+
+/**
+ * Delete images (all of them, or just `candidates`) that no note, undo history or the clipboard places any more.
+ * Run at startup for images left behind by trimmed undo histories.
+ */
+export async function deleteUnusedImages(candidates?: Iterable<string>) {
+    const unused = new Set(candidates ?? await db.images.toCollection().primaryKeys());
+    if (unused.size === 0) return;
+    await db.notes.each(note => imageIdsIn(note.drawings).forEach(id => unused.delete(id)));
+    await db.history.each(history => historyImageIds(history).forEach(id => unused.delete(id)));
+    imageIdsIn(getLocalClipboard()?.elements).forEach(id => unused.delete(id));
+    if (unused.size > 0) await db.images.bulkDelete([...unused]);
+}
+
+// Images a deleted note placed (now or in its undo history) go with it unless something else still has them
+async function releaseNoteImages(note: Note) {
+    const history = await db.history.get(note.id);
+    await db.history.delete(note.id);
+    await deleteUnusedImages([...imageIdsIn(note.drawings), ...historyImageIds(history)]);
+}
+
+// Drop per-note data along with the note, whichever code path deletes it
+db.notes.hook('deleting', (noteId, note, trans) => {
+    trans.on('complete', () => {
+        releaseNoteImages(note).catch(e => console.error(`Cleaning up after note ${noteId} failed:`, e));
+        clearTimeout(reindexTimers.get(noteId));
+        reindexTimers.delete(noteId);
+        indexedSources.delete(noteId);
+        db.searchTerms.where('noteId').equals(noteId).delete()
+            .catch(e => console.error(`Removing note ${noteId} from the search index failed:`, e));
+    });
+});
+
 export { db };
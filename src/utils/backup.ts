@@ -0,0 +1,284 @@
+import { v4 as uuidv4 } from 'uuid';
+import { db, type Folder, type Note, type StoredImage } from '../db/db';
+import { blobToDataUrl } from './imageStore';
+import { buildTitleIndex, rewriteNoteLinks, toIdLink } from './noteLinks';
+
+/**
+ * Whole-database backups as a single JSON file.
+ * Folders, notes and image data are included; undo history and the search index are not
+ * (the index is rebuilt as notes are written back).
+ *
+ * Layout versions:
+ * - 1: { folders, notes }; links still pointed at note titles
+ * - 2: adds `images` (blobs as data URLs); links point at note ids
+ */
+
+export const BACKUP_FORMAT = 'app_memo-backup';
+export const BACKUP_VERSION = 2;
+
+export interface BackupImage {
+    id: string;
+    data: string; // Data URL
+    width: number;
+    height: number;
+    createdAt: number;
+}
+
+export interface Backup {
+    format: typeof BACKUP_FORMAT;
+    version: number;
+    exportedAt: number;
+    folders: Folder[];
+    notes: Note[];
+    images: BackupImage[];
+}
+
+// What to do with a folder, note or image whose id already exists
+export type CollisionMode = 'skip' | 'overwrite' | 'copy';
+
+export interface RestoreCounts {
+    added: number;
+    overwritten: number;
+    copied: number; // Imported under a new id
+    skipped: number;
+}
+
+export type RestoreSummary = Record<'folders' | 'notes' | 'images', RestoreCounts>;
+
+function dataUrlToBlob(dataUrl: string): Blob {
+    const match = /^data:([^;,]*)(;base64)?,(.*)$/s.exec(dataUrl);
+    if (!match) throw new Error('Invalid image data');
+    const [, type, base64, payload] = match;
+    if (!base64) return new Blob([decodeURIComponent(payload)], { type });
+    const binary = atob(payload);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return new Blob([bytes], { type });
+}
+
+export async function createBackup(): Promise<Backup> {
+    // Read everything in one transaction so the backup is consistent; encode the blobs after it
+    const [folders, notes, images] = await db.transaction('r', [db.folders, db.notes, db.images], () =>
+        Promise.all([db.folders.toArray(), db.notes.toArray(), db.images.toArray()])
+    );
+    const encoded: BackupImage[] = [];
+    for (const image of images) {
+        encoded.push({ id: image.id, data: await blobToDataUrl(image.blob), width: image.width, height: image.height, createdAt: image.createdAt });
+    }
+    return { format: BACKUP_FORMAT, version: BACKUP_VERSION, exportedAt: Date.now(), folders, notes, images: encoded };
+}
+
+// YYYY-MM-DD in local time, for file names
+export const dateStamp = (date: Date = new Date()) =>
+    `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export const backupFileName = () => `app_memo-backup-${dateStamp()}.json`;
+
+// ---- Reading ----
+
+const isRewritable = (note: any) => !!note && typeof note === 'object'
+    && (note.content == null || typeof note.content === 'string')
+    && (note.drawings == null || Array.isArray(note.drawings));
+
+// Older layouts are brought up to date one version at a time
+const upgrades: Record<number, (data: any) => any> = {
+    1: data => {
+        const notes = Array.isArray(data.notes) ? data.notes : [];
+        // Same conversion the database did when it moved to id links
+        const rewrite = toIdLink(buildTitleIndex(notes.filter((n: any) => typeof n?.id === 'string' && typeof n?.title === 'string')));
+        return {
+            ...data,
+            version: 2,
+            images: [],
+            // Malformed notes are left for validation to report
+            notes: notes.map((note: any) => isRewritable(note) ? { ...note, ...rewriteNoteLinks(note, rewrite) } : note)
+        };
+    }
+};
+
+const isString = (v: unknown): v is string => typeof v === 'string';
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+
+function fail(where: string, problem: string): never {
+    throw new Error(`Invalid backup: ${where} ${problem}`);
+}
+
+function readFolder(raw: any, i: number): Folder {
+    const where = `folders[${i}]`;
+    if (!raw || typeof raw !== 'object') fail(where, 'is not an object');
+    if (!isString(raw.id) || !raw.id) fail(where, 'has no id');
+    if (!isString(raw.title)) fail(where, 'has no title');
+    if (raw.parentId != null && !isString(raw.parentId)) fail(where, 'has an invalid parentId');
+    const now = Date.now();
+    return {
+        id: raw.id,
+        title: raw.title,
+        parentId: raw.parentId ?? null,
+        createdAt: isNumber(raw.createdAt) ? raw.createdAt : now,
+        updatedAt: isNumber(raw.updatedAt) ? raw.updatedAt : now
+    };
+}
+
+function readNote(raw: any, i: number): Note {
+    const where = `notes[${i}]`;
+    if (!raw || typeof raw !== 'object') fail(where, 'is not an object');
+    if (!isString(raw.id) || !raw.id) fail(where, 'has no id');
+    if (raw.title != null && !isString(raw.title)) fail(where, 'has an invalid title');
+    if (raw.content != null && !isString(raw.content)) fail(where, 'has invalid content');
+    if (raw.folderId != null && !isString(raw.folderId)) fail(where, 'has an invalid folderId');
+    for (const key of ['drawings', 'layers', 'ink'] as const) {
+        if (raw[key] != null && !Array.isArray(raw[key])) fail(where, `has invalid ${key}`);
+    }
+    if (Array.isArray(raw.drawings) && raw.drawings.some((el: any) => !el || !isString(el.id) || !isString(el.type))) {
+        fail(where, 'has an invalid drawing element');
+    }
+    const now = Date.now();
+    const note: Note = {
+        id: raw.id,
+        folderId: raw.folderId ?? null,
+        title: raw.title ?? '',
+        content: raw.content ?? '',
+        createdAt: isNumber(raw.createdAt) ? raw.createdAt : now,
+        updatedAt: isNumber(raw.updatedAt) ? raw.updatedAt : now
+    };
+    if (raw.drawings) note.drawings = raw.drawings;
+    if (raw.layers) note.layers = raw.layers;
+    if (raw.ink) note.ink = raw.ink;
+    if (raw.isFavorite) note.isFavorite = true;
+    return note;
+}
+
+function readImage(raw: any, i: number): BackupImage {
+    const where = `images[${i}]`;
+    if (!raw || typeof raw !== 'object') fail(where, 'is not an object');
+    if (!isString(raw.id) || !raw.id) fail(where, 'has no id');
+    if (!isString(raw.data) || !raw.data.startsWith('data:')) fail(where, 'has no image data');
+    if (!isNumber(raw.width) || !isNumber(raw.height)) fail(where, 'has no size');
+    return { id: raw.id, data: raw.data, width: raw.width, height: raw.height, createdAt: isNumber(raw.createdAt) ? raw.createdAt : Date.now() };
+}
+
+function readList<T>(raw: any, key: string, read: (item: any, i: number) => T & { id: string }): T[] {
+    if (!Array.isArray(raw[key])) fail(key, 'is missing');
+    const items = (raw[key] as any[]).map(read);
+    const ids = new Set<string>();
+    for (const item of items) {
+        if (ids.has(item.id)) fail(key, `has the id ${item.id} twice`);
+        ids.add(item.id);
+    }
+    return items;
+}
+
+// Parse and check a backup file, upgrading older layouts; throws with the reason if it can't be used
+export function parseBackup(text: string): Backup {
+    let data: any;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new Error('Invalid backup: not a JSON file');
+    }
+    if (!data || typeof data !== 'object' || data.format !== BACKUP_FORMAT) throw new Error('Invalid backup: not a backup of this app');
+    if (!Number.isInteger(data.version) || data.version < 1) fail('version', 'is missing');
+    if (data.version > BACKUP_VERSION) throw new Error(`This backup was made by a newer version of the app (layout ${data.version}); update the app first`);
+
+    while (data.version < BACKUP_VERSION) data = upgrades[data.version](data);
+
+    return {
+        format: BACKUP_FORMAT,
+        version: BACKUP_VERSION,
+        exportedAt: isNumber(data.exportedAt) ? data.exportedAt : 0,
+        folders: readList(data, 'folders', readFolder),
+        notes: readList(data, 'notes', readNote),
+        images: readList(data, 'images', readImage)
+    };
+}
+
+// ---- Restoring ----
+
+const copyTitle = (title: string) => title ? `${title} のコピー` : title;
+
+/**
+ * Write a backup into the database, keeping what is already there.
+ * Ids that already exist are skipped, overwritten, or (folders and notes) imported under new ids
+ * with the backup's own references (parents, folders, links) following them. Images always keep
+ * their ids, since drawings refer to them by id: one whose id already exists is replaced in
+ * 'overwrite' mode and otherwise left as it is ('copy' included).
+ */
+export async function restoreBackup(backup: Backup, mode: CollisionMode): Promise<RestoreSummary> {
+    const counts = (): RestoreCounts => ({ added: 0, overwritten: 0, copied: 0, skipped: 0 });
+    const summary: RestoreSummary = { folders: counts(), notes: counts(), images: counts() };
+    // Decoded up front: the transaction must not wait on anything but the database
+    const images: StoredImage[] = backup.images.map(image => ({
+        id: image.id, blob: dataUrlToBlob(image.data), width: image.width, height: image.height, createdAt: image.createdAt
+    }));
+
+    await db.transaction('rw', [db.folders, db.notes, db.images, db.history], async () => {
+        const present = (items: ({ id: string } | undefined)[]) => new Set(items.filter(item => !!item).map(item => item!.id));
+        const existingFolders = present(await db.folders.bulkGet(backup.folders.map(f => f.id)));
+        const existingNotes = present(await db.notes.bulkGet(backup.notes.map(n => n.id)));
+        const existingImages = present(await db.images.bulkGet(images.map(i => i.id)));
+
+        // New ids for copies, decided before anything is written so references can follow them
+        const folderIds = new Map<string, string>();
+        const noteIds = new Map<string, string>();
+        if (mode === 'copy') {
+            existingFolders.forEach(id => folderIds.set(id, uuidv4()));
+            existingNotes.forEach(id => noteIds.set(id, uuidv4()));
+        }
+        // Parents that are neither in the backup nor in the database would hide their contents; those go to the top level
+        const backupFolders = new Set(backup.folders.map(f => f.id));
+        const knownFolders = new Set([...backupFolders, ...(await db.folders.toCollection().primaryKeys())]);
+        const folderRef = (id: string | null) => id && knownFolders.has(id) ? folderIds.get(id) ?? id : null;
+
+        const place = <T extends { id: string, title: string }>(item: T, exists: Set<string>, ids: Map<string, string>, count: RestoreCounts): T | null => {
+            if (!exists.has(item.id)) {
+                count.added++;
+                return item;
+            }
+            if (mode === 'skip') {
+                count.skipped++;
+                return null;
+            }
+            if (mode === 'overwrite') {
+                count.overwritten++;
+                return item;
+            }
+            count.copied++;
+            return { ...item, id: ids.get(item.id)!, title: copyTitle(item.title) };
+        };
+
+        const folders = backup.folders
+            .map(folder => place(folder, existingFolders, folderIds, summary.folders))
+            .filter((f): f is Folder => !!f)
+            .map(folder => ({ ...folder, parentId: folderRef(folder.parentId) }));
+
+        const notes = backup.notes
+            .map(note => place(note, existingNotes, noteIds, summary.notes))
+            .filter((n): n is Note => !!n)
+            .map(note => {
+                const moved = { ...note, folderId: folderRef(note.folderId) };
+                if (noteIds.size === 0) return moved;
+                const links = rewriteNoteLinks(moved, link => link.noteId && noteIds.has(link.noteId) ? { ...link, noteId: noteIds.get(link.noteId)! } : null);
+                return { ...moved, ...links };
+            });
+
+        const newImages = images.filter(image => {
+            if (!existingImages.has(image.id)) {
+                summary.images.added++;
+                return true;
+            }
+            if (mode === 'overwrite') {
+                summary.images.overwritten++;
+                return true;
+            }
+            summary.images.skipped++;
+            return false;
+        });
+
+        await db.folders.bulkPut(folders);
+        await db.notes.bulkPut(notes);
+        await db.images.bulkPut(newImages);
+        // Undo steps of replaced notes no longer apply to them
+        if (mode === 'overwrite') await db.history.bulkDelete([...existingNotes]);
+    });
+    return summary;
+}
@@ -0,0 +1,56 @@
+import { v4 as uuidv4 } from 'uuid';
+import { getElementsBounds, type DrawingElement, type Point } from './geometry';
+import { translateElement } from './transform';
+import { loadSetting, saveSetting } from './settings';
+
+// Canvas elements on the clipboard travel as JSON text tagged with this kind
+const PAYLOAD_KIND = 'app_memo/elements';
+
+export interface ClipboardPayload {
+    kind: typeof PAYLOAD_KIND;
+    version: 1;
+    elements: DrawingElement[];
+}
+
+export function serializeElements(elements: DrawingElement[]): string {
+    const payload: ClipboardPayload = { kind: PAYLOAD_KIND, version: 1, elements };
+    return JSON.stringify(payload);
+}
+
+export function parseClipboardPayload(text: string): ClipboardPayload | null {
+    if (!text.startsWith('{')) return null;
+    try {
+        const data = JSON.parse(text);
+        if (data?.kind === PAYLOAD_KIND && Array.isArray(data.elements)) return data as ClipboardPayload;
+    } catch {
+        // Plain text that happens to start with a brace
+    }
+    return null;
+}
+
+/**
+ * Copy to the system clipboard, and keep a local copy so pasting into another note
+ * still works where clipboard access is denied.
+ */
+export async function copyElements(elements: DrawingElement[]) {
+    const text = serializeElements(elements);
+    saveSetting('clipboard', text);
+    try {
+        await navigator.clipboard.writeText(text);
+    } catch (e) {
+        console.warn('System clipboard unavailable, using local clipboard:', e);
+    }
+}
+
+export function getLocalClipboard(): ClipboardPayload | null {
+    return parseClipboardPayload(loadSetting('clipboard', ''));
+}
+
+// Fresh ids, moved so the group is centred on `at`
+export function prepareForPaste(elements: DrawingElement[], at: Point): DrawingElement[] {
+    const bounds = getElementsBounds(elements);
+    if (!bounds) return [];
+    const dx = at.x - (bounds.x + bounds.width / 2);
+    const dy = at.y - (bounds.y + bounds.height / 2);
+    return elements.map(el => ({ ...translateElement(el, dx, dy), id: uuidv4() }));
+}
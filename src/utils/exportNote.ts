@@ -0,0 +1,368 @@
+import { db, type Note } from '../db/db';
+import { getElementsBounds, getImageCorners, getShapePaths, getStrokeOutline, getStrokeRadii, hasVariableWidth, type DrawingElement, type ImageElement, type Point, type Rectangle, type Shape, type Stroke, type TextElement } from './geometry';
+import { defaultLayers, paintOrder } from './layers';
+import { drawStroke, traceShape, LINK_COLOR } from './render';
+import { drawTextLines, layoutText } from './textLayout';
+import { blobToDataUrl, loadImage } from './imageStore';
+import { parseWikiLink, wikiLinkLabel } from './wikiLinks';
+
+// Exports of a note's drawing, laid out from element bounds (not from what the editor happens to show)
+
+type ExportSource = Pick<Note, 'drawings' | 'layers'>;
+
+export type PdfPageSize = 'a4' | 'a3' | 'letter';
+
+export const PDF_PAGE_SIZES: { value: PdfPageSize, label: string, width: number, height: number }[] = [
+    { value: 'a4', label: 'A4', width: 210, height: 297 }, // mm, portrait
+    { value: 'a3', label: 'A3', width: 297, height: 420 },
+    { value: 'letter', label: 'Letter', width: 215.9, height: 279.4 }
+];
+
+export interface PdfOptions {
+    pageSize: PdfPageSize;
+    landscape: boolean;
+    margin: number; // mm
+}
+
+const EXPORT_PADDING = 20; // World units around the drawing
+const MAX_CANVAS_SIZE = 16384; // Browsers refuse larger canvases
+const PDF_RESOLUTION = 2; // Pixels per PDF point (144 dpi)
+const PT_PER_MM = 72 / 25.4;
+const PT_PER_PX = 0.75; // A world unit is a CSS pixel; drawings are never enlarged past print size
+
+// Elements of the visible layers in paint order, and the area they cover
+function prepare(source: ExportSource) {
+    const order = paintOrder((source.drawings || []) as DrawingElement[], source.layers?.length ? source.layers : defaultLayers());
+    const bounds = getElementsBounds(order.map(o => o.el));
+    if (!bounds) throw new Error('Nothing to export: the note has no drawings');
+    const area: Rectangle = {
+        x: bounds.x - EXPORT_PADDING,
+        y: bounds.y - EXPORT_PADDING,
+        width: bounds.width + EXPORT_PADDING * 2,
+        height: bounds.height + EXPORT_PADDING * 2
+    };
+    return { order, area };
+}
+
+const elementOpacity = (el: DrawingElement, layerOpacity: number) =>
+    layerOpacity * (el.type !== 'text' && el.type !== 'image' ? (el.opacity ?? 1) : 1);
+
+// ---- SVG ----
+
+const num = (n: number) => String(Math.round(n * 100) / 100);
+const deg = (radians: number) => num(radians * 180 / Math.PI);
+
+const escapeXml = (text: string) => text.replace(/[<>&"']/g, ch => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;', "'": '&apos;' }[ch]!));
+
+// Same curve as the canvas renderer: quadratic segments through the midpoints
+function smoothPathData(points: Point[], moveToStart: boolean): string {
+    const parts = [`${moveToStart ? 'M' : 'L'}${num(points[0].x)} ${num(points[0].y)}`];
+    for (let i = 1; i < points.length - 1; i++) {
+        const mid = { x: (points[i].x + points[i + 1].x) / 2, y: (points[i].y + points[i + 1].y) / 2 };
+        parts.push(`Q${num(points[i].x)} ${num(points[i].y)} ${num(mid.x)} ${num(mid.y)}`);
+    }
+    const last = points[points.length - 1];
+    parts.push(`L${num(last.x)} ${num(last.y)}`);
+    return parts.join('');
+}
+
+// Half-circle cap from one side of the outline to the other
+const capData = (center: Point, radius: number, angle: number) => {
+    const end = { x: center.x + radius * Math.cos(angle - Math.PI / 2), y: center.y + radius * Math.sin(angle - Math.PI / 2) };
+    return `A${num(radius)} ${num(radius)} 0 0 0 ${num(end.x)} ${num(end.y)}`;
+};
+
+function strokeSvg(stroke: Stroke, color: string): string {
+    const { points } = stroke;
+    if (!hasVariableWidth(stroke)) {
+        if (points.length < 2) return '';
+        return `<path d="${smoothPathData(points, true)}" fill="none" stroke="${escapeXml(color)}" stroke-width="${num(stroke.width)}" stroke-linecap="round" stroke-linejoin="round"/>`;
+    }
+    if (points.length === 0) return '';
+    const radii = getStrokeRadii(points, stroke.width, stroke.thinning);
+    if (points.length === 1) {
+        return `<circle cx="${num(points[0].x)}" cy="${num(points[0].y)}" r="${num(radii[0])}" fill="${escapeXml(color)}"/>`;
+    }
+    // Filled outline with round caps, as drawVariableStroke builds it
+    const { left, right } = getStrokeOutline(points, radii);
+    const first = points[0];
+    const last = points[points.length - 1];
+    const endAngle = Math.atan2(last.y - points[points.length - 2].y, last.x - points[points.length - 2].x);
+    const startAngle = Math.atan2(points[1].y - first.y, points[1].x - first.x) + Math.PI;
+    const d = smoothPathData(left, true)
+        + capData(last, radii[radii.length - 1], endAngle)
+        + smoothPathData(right.slice().reverse(), false)
+        + capData(first, radii[0], startAngle)
+        + 'Z';
+    return `<path d="${d}" fill="${escapeXml(color)}"/>`;
+}
+
+function shapeSvg(shape: Shape, color: string): string {
+    const p = shape.params;
+    const style = `fill="none" stroke="${escapeXml(color)}" stroke-width="${num(shape.width)}" stroke-linecap="round" stroke-linejoin="round"`;
+    if (shape.type === 'circle') {
+        return `<circle cx="${num(p.x)}" cy="${num(p.y)}" r="${num(p.radius)}" ${style}/>`;
+    }
+    if (shape.type === 'ellipse') {
+        const rotate = p.rotation ? ` transform="rotate(${deg(p.rotation)} ${num(p.x)} ${num(p.y)})"` : '';
+        return `<ellipse cx="${num(p.x)}" cy="${num(p.y)}" rx="${num(p.rx)}" ry="${num(p.ry)}"${rotate} ${style}/>`;
+    }
+    const closed = shape.type !== 'line' && shape.type !== 'arrow';
+    const d = getShapePaths(shape)
+        .map(path => path.map((pt, i) => `${i === 0 ? 'M' : 'L'}${num(pt.x)} ${num(pt.y)}`).join('') + (closed ? 'Z' : ''))
+        .join('');
+    return `<path d="${d}" ${style}/>`;
+}
+
+function textSvg(el: TextElement, color: string, underline: boolean): string {
+    const layout = layoutText(el);
+    const transform = `translate(${num(el.x)} ${num(el.y)})${el.rotation ? ` rotate(${deg(el.rotation)})` : ''}`;
+    const font = [
+        `font-family="${escapeXml(el.fontFamily || 'sans-serif')}"`,
+        `font-size="${num(el.fontSize)}"`,
+        el.bold ? 'font-weight="bold"' : '',
+        el.italic ? 'font-style="italic"' : ''
+    ].filter(Boolean).join(' ');
+    const lines = layout.lines.map((line, i) => {
+        // Offsets come from the same measurements the editor uses, so wrapping and alignment match
+        const offset = el.align === 'center' ? (layout.width - line.width) / 2 : el.align === 'right' ? layout.width - line.width : 0;
+        const baseline = i * layout.lineHeight;
+        let out = line.text ? `<text x="${num(offset)}" y="${num(baseline)}">${escapeXml(line.text)}</text>` : '';
+        if (underline && line.width > 0) {
+            out += `<rect x="${num(offset)}" y="${num(baseline + el.fontSize * 0.12)}" width="${num(line.width)}" height="${num(Math.max(1, el.fontSize / 16))}"/>`;
+        }
+        return out;
+    }).join('');
+    return `<g transform="${transform}" fill="${escapeXml(color)}" ${font} xml:space="preserve">${lines}</g>`;
+}
+
+async function imageSvg(el: ImageElement, linked: boolean): Promise<string> {
+    const stored = await db.images.get(el.imageId);
+    const center = { x: el.x + el.width / 2, y: el.y + el.height / 2 };
+    const rotate = el.rotation ? ` transform="rotate(${deg(el.rotation)} ${num(center.x)} ${num(center.y)})"` : '';
+    const box = `x="${num(el.x)}" y="${num(el.y)}" width="${num(el.width)}" height="${num(el.height)}"${rotate}`;
+    let out = stored
+        ? `<image ${box} href="${await blobToDataUrl(stored.blob)}" preserveAspectRatio="none"/>`
+        : `<rect ${box} fill="#e5e7eb"/>`; // Missing image: the editor's placeholder
+    if (linked) {
+        const corners = getImageCorners(el).map(c => `${num(c.x)},${num(c.y)}`).join(' ');
+        out += `<polygon points="${corners}" fill="none" stroke="${LINK_COLOR}" stroke-width="3"/>`;
+    }
+    return out;
+}
+
+/**
+ * The note's drawing as a standalone SVG with vector paths.
+ * Images are embedded as data URLs; linked elements are wrapped in a group carrying the link and a tooltip.
+ */
+export async function noteToSvg(source: ExportSource, background: string | null = null): Promise<string> {
+    const { order, area } = prepare(source);
+    const body: string[] = [];
+    for (const { el, layerOpacity } of order) {
+        // Linked text and shapes take the link colour, as in the editor's view mode
+        let svg: string;
+        if (el.type === 'stroke') svg = strokeSvg(el, el.color);
+        else if (el.type === 'text') svg = textSvg(el, el.link ? LINK_COLOR : el.color, !!el.underline || !!el.link);
+        else if (el.type === 'image') svg = await imageSvg(el, !!el.link);
+        else svg = shapeSvg(el, el.link ? LINK_COLOR : el.color);
+        if (!svg) continue;
+
+        const opacity = elementOpacity(el, layerOpacity);
+        if (opacity < 1) svg = `<g opacity="${num(opacity)}">${svg}</g>`;
+        if (el.link) svg = `<g data-link="${escapeXml(el.link)}"><title>${escapeXml(wikiLinkLabel(parseWikiLink(el.link.replace(/^\[\[|\]\]$/g, ''))))}</title>${svg}</g>`;
+        body.push(svg);
+    }
+    const viewBox = [area.x, area.y, area.width, area.height].map(num).join(' ');
+    const fill = background ? `<rect x="${num(area.x)}" y="${num(area.y)}" width="${num(area.width)}" height="${num(area.height)}" fill="${escapeXml(background)}"/>` : '';
+    return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="${viewBox}" width="${num(area.width)}" height="${num(area.height)}">${fill}${body.join('')}</svg>`;
+}
+
+// ---- Raster (PNG and PDF pages) ----
+
+// Draws `area` of the drawing at `scale` pixels per world unit, the way the editor's view mode shows it
+async function renderArea(order: ReturnType<typeof prepare>['order'], area: Rectangle, scale: number, background: string | null): Promise<HTMLCanvasElement> {
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.ceil(area.width * scale));
+    canvas.height = Math.max(1, Math.ceil(area.height * scale));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas not available');
+    if (background) {
+        ctx.fillStyle = background;
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+    }
+    ctx.scale(scale, scale);
+    ctx.translate(-area.x, -area.y);
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+
+    for (const { el, layerOpacity } of order) {
+        ctx.globalAlpha = elementOpacity(el, layerOpacity);
+        const color = el.type === 'image' ? '#000000' : el.link && el.type !== 'stroke' ? LINK_COLOR : el.color;
+        ctx.strokeStyle = color;
+        ctx.fillStyle = color;
+        ctx.lineWidth = el.type === 'text' || el.type === 'image' ? 0 : el.width;
+
+        if (el.type === 'stroke') {
+            drawStroke(ctx, el);
+        } else if (el.type === 'text') {
+            ctx.save();
+            ctx.translate(el.x, el.y);
+            if (el.rotation) ctx.rotate(el.rotation);
+            drawTextLines(ctx, el, !!el.underline || !!el.link);
+            ctx.restore();
+        } else if (el.type === 'image') {
+            const img = await loadImage(el.imageId);
+            ctx.save();
+            ctx.translate(el.x + el.width / 2, el.y + el.height / 2);
+            if (el.rotation) ctx.rotate(el.rotation);
+            if (img) {
+                ctx.drawImage(img, -el.width / 2, -el.height / 2, el.width, el.height);
+            } else {
+                ctx.fillStyle = '#e5e7eb';
+                ctx.fillRect(-el.width / 2, -el.height / 2, el.width, el.height);
+            }
+            ctx.restore();
+            if (el.link) {
+                ctx.beginPath();
+                getImageCorners(el).forEach((c, i) => i === 0 ? ctx.moveTo(c.x, c.y) : ctx.lineTo(c.x, c.y));
+                ctx.closePath();
+                ctx.strokeStyle = LINK_COLOR;
+                ctx.lineWidth = 3;
+                ctx.stroke();
+            }
+        } else {
+            traceShape(ctx, el);
+            ctx.stroke();
+        }
+    }
+    return canvas;
+}
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number) => new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Image could not be encoded')), type, quality)
+);
+
+/**
+ * The drawing as a PNG at `scale` pixels per world unit; `background` null keeps it transparent.
+ * The scale is lowered if the image would be larger than browsers can draw.
+ */
+export async function noteToPng(source: ExportSource, scale: number = 2, background: string | null = null): Promise<Blob> {
+    const { order, area } = prepare(source);
+    const fitted = Math.min(scale, MAX_CANVAS_SIZE / area.width, MAX_CANVAS_SIZE / area.height);
+    return canvasToBlob(await renderArea(order, area, fitted, background), 'image/png');
+}
+
+// ---- PDF ----
+
+interface PdfPage {
+    width: number; // Points
+    height: number;
+    jpeg: Uint8Array;
+    pixelWidth: number;
+    pixelHeight: number;
+    x: number; // Where the image goes on the page (points, from the bottom left)
+    y: number;
+    drawWidth: number;
+    drawHeight: number;
+}
+
+// Just enough of PDF 1.4 for pages that each show one JPEG
+function writePdf(pages: PdfPage[]): Blob {
+    const encoder = new TextEncoder();
+    const chunks: Uint8Array[] = [];
+    const offsets: number[] = [];
+    let length = 0;
+    const write = (data: string | Uint8Array) => {
+        const bytes = typeof data === 'string' ? encoder.encode(data) : data;
+        chunks.push(bytes);
+        length += bytes.length;
+    };
+    const object = (id: number, body: string, stream?: Uint8Array) => {
+        offsets[id] = length;
+        write(`${id} 0 obj\n${body}\n`);
+        if (stream) {
+            write('stream\n');
+            write(stream);
+            write('\nendstream\n');
+        }
+        write('endobj\n');
+    };
+
+    write('%PDF-1.4\n');
+    // Objects: 1 catalog, 2 page tree, then page / contents / image for each page
+    const pageId = (i: number) => 3 + i * 3;
+    object(1, '<< /Type /Catalog /Pages 2 0 R >>');
+    object(2, `<< /Type /Pages /Kids [${pages.map((_, i) => `${pageId(i)} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+    pages.forEach((page, i) => {
+        const id = pageId(i);
+        const content = encoder.encode(`q ${num(page.drawWidth)} 0 0 ${num(page.drawHeight)} ${num(page.x)} ${num(page.y)} cm /Im0 Do Q`);
+        object(id, `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(page.width)} ${num(page.height)}] /Resources << /XObject << /Im0 ${id + 2} 0 R >> >> /Contents ${id + 1} 0 R >>`);
+        object(id + 1, `<< /Length ${content.length} >>`, content);
+        object(id + 2, `<< /Type /XObject /Subtype /Image /Width ${page.pixelWidth} /Height ${page.pixelHeight} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>`, page.jpeg);
+    });
+
+    const xref = length;
+    const count = pageId(pages.length);
+    write(`xref\n0 ${count}\n0000000000 65535 f \n`);
+    for (let id = 1; id < count; id++) write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+    write(`trailer\n<< /Size ${count} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`);
+    return new Blob(chunks as BlobPart[], { type: 'application/pdf' });
+}
+
+/**
+ * The drawing as a PDF: fitted to the width inside the margins and continued over as many pages as it needs.
+ * Pages are rasterized (white background), so they look exactly like the PNG export.
+ */
+export async function noteToPdf(source: ExportSource, { pageSize, landscape, margin }: PdfOptions): Promise<Blob> {
+    const { order, area } = prepare(source);
+    const size = PDF_PAGE_SIZES.find(s => s.value === pageSize) ?? PDF_PAGE_SIZES[0];
+    const pageWidth = (landscape ? size.height : size.width) * PT_PER_MM;
+    const pageHeight = (landscape ? size.width : size.height) * PT_PER_MM;
+    const marginPt = Math.max(0, margin) * PT_PER_MM;
+    const contentWidth = pageWidth - marginPt * 2;
+    const contentHeight = pageHeight - marginPt * 2;
+    if (contentWidth <= 0 || contentHeight <= 0) throw new Error('The margins leave no room on the page');
+
+    const ptPerUnit = Math.min(PT_PER_PX, contentWidth / area.width);
+    const sliceHeight = contentHeight / ptPerUnit; // World units per page
+    const pages: PdfPage[] = [];
+    // Counted up front: adding up slice heights can drift past an exact multiple and start an empty page
+    const pageCount = Math.max(1, Math.ceil(area.height / sliceHeight - 1e-6));
+    for (let index = 0; index < pageCount; index++) {
+        const top = area.y + index * sliceHeight;
+        const slice = { x: area.x, y: top, width: area.width, height: Math.min(sliceHeight, area.y + area.height - top) };
+        const canvas = await renderArea(order, slice, ptPerUnit * PDF_RESOLUTION, '#ffffff');
+        const jpeg = new Uint8Array(await (await canvasToBlob(canvas, 'image/jpeg', 0.92)).arrayBuffer());
+        const drawHeight = slice.height * ptPerUnit;
+        pages.push({
+            width: pageWidth,
+            height: pageHeight,
+            jpeg,
+            pixelWidth: canvas.width,
+            pixelHeight: canvas.height,
+            x: marginPt,
+            y: pageHeight - marginPt - drawHeight,
+            drawWidth: slice.width * ptPerUnit,
+            drawHeight
+        });
+    }
+    return writePdf(pages);
+}
+
+// A title as a file name: without characters file systems reject, or that would break a [[link]] to the file
+export const safeFileName = (title: string) =>
+    title.replace(/[\\/:*?"<>|#^[\]\u0000-\u001f]/g, '_').trim() || 'memo';
+
+export const exportFileName = (title: string, extension: string) => `${safeFileName(title)}.${extension}`;
+
+export function downloadBlob(blob: Blob, fileName: string) {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    document.body.appendChild(a);
+    a.click();
+    a.remove();
+    // Give the browser a moment to start the download before the URL goes away
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
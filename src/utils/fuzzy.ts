@@ -0,0 +1,35 @@
+/**
+ * Subsequence match of `query` in `text`, case-insensitive.
+ * Returns a score (higher is better) or null when not every query character appears in order.
+ * Consecutive runs, word starts and an early first match score higher.
+ */
+export function fuzzyScore(query: string, text: string): number | null {
+    const q = query.toLowerCase();
+    const t = text.toLowerCase();
+    if (!q) return 0;
+
+    let score = 0;
+    let ti = 0;
+    let previous = -2;
+    for (const ch of q) {
+        const found = t.indexOf(ch, ti);
+        if (found < 0) return null;
+        if (found === previous + 1) score += 5; // Run
+        if (found === 0 || /[\s\-_/.([]/.test(t[found - 1])) score += 3; // Word start
+        score -= Math.min(found - ti, 10) * 0.1; // Gap
+        previous = found;
+        ti = found + 1;
+    }
+    if (t.startsWith(q)) score += 10;
+    return score - t.indexOf(q[0]) * 0.05;
+}
+
+// Items ranked by fuzzy score against `key`, dropping those that don't match
+export function fuzzyFilter<T>(items: T[], query: string, key: (item: T) => string, limit: number = Infinity): T[] {
+    return items
+        .map(item => ({ item, score: fuzzyScore(query, key(item)) }))
+        .filter((entry): entry is { item: T, score: number } => entry.score !== null)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit)
+        .map(entry => entry.item);
+}
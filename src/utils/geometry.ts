@@ -1,15 +1,200 @@
-export interface Point { x: number; y: number; }
-export interface Stroke { points: Point[]; color: string; width: number; type: 'stroke'; id: string; link?: string }
-export interface Shape { type: 'line' | 'rect' | 'circle'; params: any; color: string; width: number; id: string; link?: string }
+import { getTextBox } from './textLayout';
 
-export interface TextElement { x: number; y: number; content: string; fontSize: number; color: string; type: 'text'; id: string; link?: string }
-export type DrawingElement = Stroke | Shape | TextElement;
+export interface Point {
+    x: number; y: number;
+    // Stylus data, only present for points captured from a pen
+    pressure?: number; // 0..1
+    tiltX?: number; tiltY?: number; // Degrees
+    t?: number; // Capture time (ms)
+}
+export interface Stroke {
+    points: Point[]; color: string; width: number; type: 'stroke'; id: string; link?: string; layerId?: string;
+    opacity?: number; // 0..1, defaults to 1
+    highlighter?: boolean; // Drawn beneath regular ink
+    thinning?: number; // 0..1, how much fast movement narrows the line
+}
+/**
+ * Shape params by type:
+ * - line / arrow: { start, end } (arrow also has headSize)
+ * - rect: { x, y, width, height, rotation? }
+ * - circle: { x, y, radius }, ellipse: { x, y, rx, ry, rotation? }
+ *   (rotation in radians around the shape's centre)
+ * - triangle / diamond / polygon: { points } (closed, first point not repeated; rotated rects are polygons)
+ */
+export type ShapeType = 'line' | 'rect' | 'circle' | 'ellipse' | 'triangle' | 'diamond' | 'polygon' | 'arrow';
+export interface Shape { type: ShapeType; params: any; color: string; width: number; id: string; link?: string; layerId?: string; opacity?: number }
+
+export interface TextElement {
+    x: number; y: number; content: string; fontSize: number; color: string; type: 'text'; id: string; link?: string; layerId?: string;
+    rotation?: number; // Radians around the (x, y) anchor
+    width?: number; // Wrap width; unset means lines only break at newlines
+    fontFamily?: string; // CSS font family, defaults to sans-serif
+    bold?: boolean; italic?: boolean; underline?: boolean;
+    align?: 'left' | 'center' | 'right';
+}
+// Bitmap placed on the canvas; pixels live in db.images under imageId
+export interface ImageElement {
+    x: number; y: number; width: number; height: number; imageId: string; type: 'image'; id: string; link?: string; layerId?: string;
+    rotation?: number; // Radians around the image centre
+}
+// layerId refers to Note.layers; missing means the default layer
+export type DrawingElement = Stroke | Shape | TextElement | ImageElement;
 
 export function distance(a: Point, b: Point) {
     return Math.sqrt(Math.pow(b.x - a.x, 2) + Math.pow(b.y - a.y, 2));
 }
 
-export function recognizeShape(points: Point[]): { type: 'line' | 'rect' | 'circle', params: any } | null {
+export function rotatePoint<T extends Point>(p: T, center: Point, angle: number): T {
+    if (!angle) return p;
+    const cos = Math.cos(angle), sin = Math.sin(angle);
+    const dx = p.x - center.x, dy = p.y - center.y;
+    return { ...p, x: center.x + dx * cos - dy * sin, y: center.y + dx * sin + dy * cos };
+}
+
+export function distanceToSegment(p: Point, v: Point, w: Point) {
+    const l2 = Math.pow(v.x - w.x, 2) + Math.pow(v.y - w.y, 2);
+    if (l2 === 0) return distance(p, v);
+    let t = ((p.x - v.x) * (w.x - v.x) + (p.y - v.y) * (w.y - v.y)) / l2;
+    t = Math.max(0, Math.min(1, t));
+    return distance(p, { x: v.x + t * (w.x - v.x), y: v.y + t * (w.y - v.y) });
+}
+
+// Ramer-Douglas-Peucker polyline simplification
+export function simplifyPath(points: Point[], epsilon: number): Point[] {
+    if (points.length < 3) return points.slice();
+
+    const first = points[0];
+    const last = points[points.length - 1];
+    let maxDist = 0;
+    let index = 0;
+    for (let i = 1; i < points.length - 1; i++) {
+        const d = distanceToSegment(points[i], first, last);
+        if (d > maxDist) {
+            maxDist = d;
+            index = i;
+        }
+    }
+
+    if (maxDist <= epsilon) return [first, last];
+
+    const left = simplifyPath(points.slice(0, index + 1), epsilon);
+    const right = simplifyPath(points.slice(index), epsilon);
+    return [...left.slice(0, -1), ...right];
+}
+
+// Interior angle (degrees) at vertex b of the path a -> b -> c
+function vertexAngle(a: Point, b: Point, c: Point) {
+    const v1 = { x: a.x - b.x, y: a.y - b.y };
+    const v2 = { x: c.x - b.x, y: c.y - b.y };
+    const len = Math.hypot(v1.x, v1.y) * Math.hypot(v2.x, v2.y);
+    if (len === 0) return 180;
+    const cos = Math.max(-1, Math.min(1, (v1.x * v2.x + v1.y * v2.y) / len));
+    return Math.acos(cos) * 180 / Math.PI;
+}
+
+// Corners of a closed loop: simplify, then drop near-straight vertices (e.g. where the pen started mid-edge)
+function findCorners(points: Point[], perimeter: number): Point[] {
+    const simplified = simplifyPath(points, Math.max(perimeter * 0.03, 4));
+    // The loop's end meets its start, so the last vertex duplicates the first
+    let corners = simplified.slice(0, -1);
+
+    let changed = true;
+    while (changed && corners.length > 2) {
+        changed = false;
+        for (let i = 0; i < corners.length; i++) {
+            const prev = corners[(i - 1 + corners.length) % corners.length];
+            const next = corners[(i + 1) % corners.length];
+            if (vertexAngle(prev, corners[i], next) > 155) {
+                corners = corners.filter((_, j) => j !== i);
+                changed = true;
+                break;
+            }
+        }
+    }
+    return corners;
+}
+
+// Mean deviation of the points from the axis-aligned ellipse inscribed in their bounds (0 = perfect)
+function ellipseFitError(points: Point[], cx: number, cy: number, rx: number, ry: number) {
+    if (rx === 0 || ry === 0) return Infinity;
+    let total = 0;
+    for (const p of points) {
+        const nx = (p.x - cx) / rx;
+        const ny = (p.y - cy) / ry;
+        total += Math.abs(Math.sqrt(nx * nx + ny * ny) - 1);
+    }
+    return total / points.length;
+}
+
+function classifyQuad(corners: Point[], minX: number, minY: number, width: number, height: number): { type: ShapeType, params: any } {
+    // Diamond: every corner sits near the middle of one side of the bounding box
+    const mids = [
+        { x: minX + width / 2, y: minY },
+        { x: minX + width, y: minY + height / 2 },
+        { x: minX + width / 2, y: minY + height },
+        { x: minX, y: minY + height / 2 }
+    ];
+    const tolerance = Math.max(width, height) * 0.2;
+    const isDiamond = mids.every(m => corners.some(c => distance(c, m) < tolerance));
+    if (isDiamond) {
+        return { type: 'diamond', params: { points: mids } };
+    }
+
+    const angles = corners.map((c, i) => vertexAngle(corners[(i + 3) % 4], c, corners[(i + 1) % 4]));
+    const isRectangular = angles.every(a => Math.abs(a - 90) < 20);
+
+    if (isRectangular) {
+        const edge = { x: corners[1].x - corners[0].x, y: corners[1].y - corners[0].y };
+        const tilt = Math.abs(Math.atan2(edge.y, edge.x) * 180 / Math.PI) % 90;
+        if (tilt < 10 || tilt > 80) {
+            return { type: 'rect', params: { x: minX, y: minY, width, height } };
+        }
+
+        // Rotated rectangle: square up the corners around their centroid
+        const cx = corners.reduce((sum, c) => sum + c.x, 0) / 4;
+        const cy = corners.reduce((sum, c) => sum + c.y, 0) / 4;
+        const angle = Math.atan2(edge.y, edge.x);
+        const w = (distance(corners[0], corners[1]) + distance(corners[2], corners[3])) / 2;
+        const h = (distance(corners[1], corners[2]) + distance(corners[3], corners[0])) / 2;
+        const cos = Math.cos(angle), sin = Math.sin(angle);
+        const local = [{ x: -w / 2, y: -h / 2 }, { x: w / 2, y: -h / 2 }, { x: w / 2, y: h / 2 }, { x: -w / 2, y: h / 2 }];
+        // Keep the drawing direction so the local frame matches the corners
+        const clockwise = (corners[1].x - corners[0].x) * (corners[2].y - corners[1].y) - (corners[1].y - corners[0].y) * (corners[2].x - corners[1].x) > 0;
+        const ordered = clockwise ? local : local.map(p => ({ x: p.x, y: -p.y }));
+        return {
+            type: 'polygon',
+            params: { points: ordered.map(p => ({ x: cx + p.x * cos - p.y * sin, y: cy + p.x * sin + p.y * cos })) }
+        };
+    }
+
+    return { type: 'polygon', params: { points: corners } };
+}
+
+// Arrow drawn in one stroke: a long shaft, then a head scribbled around its tip
+function recognizeArrow(points: Point[], totalLength: number): { type: ShapeType, params: any } | null {
+    const vertices = simplifyPath(points, Math.max(totalLength * 0.04, 4));
+    if (vertices.length < 3) return null;
+
+    const start = vertices[0];
+    const tip = vertices[1];
+    const shaft = distance(start, tip);
+    if (shaft < totalLength * 0.45) return null;
+
+    const head = vertices.slice(2);
+    if (head.some(p => distance(p, tip) > shaft * 0.6)) return null;
+
+    // At least one barb has to point back along the shaft
+    const hasBarb = head.some(p => {
+        const angle = vertexAngle(start, tip, p);
+        return angle > 10 && angle < 75 && distance(p, tip) > shaft * 0.08;
+    });
+    if (!hasBarb) return null;
+
+    const headSize = Math.max(...head.map(p => distance(p, tip)));
+    return { type: 'arrow', params: { start, end: tip, headSize } };
+}
+
+export function recognizeShape(points: Point[]): { type: ShapeType, params: any } | null {
     if (points.length < 10) return null;
 
     const start = points[0];
@@ -34,48 +219,239 @@ export function recognizeShape(points: Point[]): { type: 'line' | 'rect' | 'circ
         return { type: 'line', params: { start, end } };
     }
 
-    // Closed Loop Check (Circle or Rect)
+    // Closed Loop Check
     // If start and end are close relative to total length ( < 20% or fixed pixel threshold)
     if (dist < totalLength * 0.2 || dist < 40) {
         const width = maxX - minX;
         const height = maxY - minY;
+        const cx = minX + width / 2;
+        const cy = minY + height / 2;
+        const fitError = ellipseFitError(points, cx, cy, width / 2, height / 2);
+        const corners = findCorners(points, totalLength);
 
-        // Check for Circle
-        // Simple heuristic: deviation from average radius?
-        // Or just assume it's a circle if aspect ratio is roughly 1?
-        const ratio = width / height;
+        // A very clean oval wins even if simplification left a few vertices
+        const isOval = fitError < 0.06 || (corners.length > 4 && fitError < 0.15);
+        if (isOval) {
+            const ratio = width / height;
+            if (ratio > 0.85 && ratio < 1.15) {
+                return { type: 'circle', params: { x: cx, y: cy, radius: (width + height) / 4 } };
+            }
+            return { type: 'ellipse', params: { x: cx, y: cy, rx: width / 2, ry: height / 2 } };
+        }
 
-        // Rect detection is harder (corners). 
-        // Let's implement Circle first for simplicity if loop is relatively round.
+        if (corners.length === 3) {
+            return { type: 'triangle', params: { points: corners } };
+        }
+        if (corners.length === 4) {
+            return classifyQuad(corners, minX, minY, width, height);
+        }
 
-        if (ratio > 0.8 && ratio < 1.2) {
-            return {
-                type: 'circle',
-                params: {
-                    x: minX + width / 2,
-                    y: minY + height / 2,
-                    radius: (width + height) / 4
-                }
-            };
+        return null;
+    }
+
+    return recognizeArrow(points, totalLength);
+}
+
+// Pressure 0.5 (the default for mice and most fingers) draws at the nominal width
+export function pressureScale(pressure: number | undefined) {
+    if (pressure === undefined) return 1;
+    return Math.min(Math.max(0.2 + pressure * 1.6, 0.2), 1.8);
+}
+
+export function hasVariableWidth(stroke: Pick<Stroke, 'points' | 'thinning'>) {
+    return !!stroke.thinning || stroke.points.some(p => p.pressure !== undefined);
+}
+
+/**
+ * Half-width of the stroke at every point, from pressure and (optionally) speed.
+ * Both are smoothed so the outline doesn't wobble with sensor noise.
+ */
+export function getStrokeRadii(points: Point[], width: number, thinning: number = 0): number[] {
+    const radii: number[] = [];
+    let velocity = 0;
+    let radius = (width / 2) * pressureScale(points[0]?.pressure);
+
+    for (let i = 0; i < points.length; i++) {
+        const p = points[i];
+        let speedScale = 1;
+        if (thinning > 0 && i > 0) {
+            const prev = points[i - 1];
+            const dt = p.t !== undefined && prev.t !== undefined ? Math.max(p.t - prev.t, 1) : 16;
+            velocity = velocity * 0.7 + (distance(prev, p) / dt) * 0.3; // px per ms
+            speedScale = 1 - thinning * 0.7 * Math.min(velocity / 2, 1);
         }
+        const target = (width / 2) * pressureScale(p.pressure) * speedScale;
+        radius = i === 0 ? target : radius * 0.6 + target * 0.4;
+        radii.push(Math.max(radius, 0.25));
+    }
+    return radii;
+}
 
-        // If not a circle, maybe a Rect?
-        // Simplified: Just returning Rect for non-circle loops
-        return {
-            type: 'rect',
-            params: {
-                x: minX,
-                y: minY,
-                width,
-                height
+// Left and right edges of a variable-width stroke (right side runs in the same direction as left)
+export function getStrokeOutline(points: Point[], radii: number[]): { left: Point[], right: Point[] } {
+    const left: Point[] = [];
+    const right: Point[] = [];
+    for (let i = 0; i < points.length; i++) {
+        const prev = points[Math.max(i - 1, 0)];
+        const next = points[Math.min(i + 1, points.length - 1)];
+        const dx = next.x - prev.x;
+        const dy = next.y - prev.y;
+        const len = Math.hypot(dx, dy) || 1;
+        const nx = -dy / len;
+        const ny = dx / len;
+        left.push({ x: points[i].x + nx * radii[i], y: points[i].y + ny * radii[i] });
+        right.push({ x: points[i].x - nx * radii[i], y: points[i].y - ny * radii[i] });
+    }
+    return { left, right };
+}
+
+function lerpPoint(a: Point, b: Point, t: number): Point {
+    const p: Point = { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t };
+    if (a.pressure !== undefined && b.pressure !== undefined) p.pressure = a.pressure + (b.pressure - a.pressure) * t;
+    if (a.t !== undefined && b.t !== undefined) p.t = a.t + (b.t - a.t) * t;
+    if (a.tiltX !== undefined) { p.tiltX = a.tiltX; p.tiltY = a.tiltY; }
+    return p;
+}
+
+function distanceToPath(p: Point, path: Point[]) {
+    if (path.length === 1) return distance(p, path[0]);
+    let min = Infinity;
+    for (let i = 0; i < path.length - 1; i++) {
+        min = Math.min(min, distanceToSegment(p, path[i], path[i + 1]));
+    }
+    return min;
+}
+
+/**
+ * Cut the parts of a stroke within `radius` of the eraser path.
+ * Returns the surviving runs of points, or null when the eraser missed the stroke.
+ */
+export function splitStrokeByEraser(points: Point[], eraserPath: Point[], radius: number): Point[][] | null {
+    if (points.length === 0 || eraserPath.length === 0) return null;
+
+    // Quick reject on bounds
+    let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
+    for (const p of eraserPath) {
+        minX = Math.min(minX, p.x); maxX = Math.max(maxX, p.x);
+        minY = Math.min(minY, p.y); maxY = Math.max(maxY, p.y);
+    }
+    const nearEraser = (p: Point) => p.x >= minX - radius && p.x <= maxX + radius && p.y >= minY - radius && p.y <= maxY + radius;
+    if (!points.some(nearEraser)) return null;
+
+    // Resample long segments so a cut lands close to where the eraser actually crossed
+    const step = Math.max(radius / 2, 1);
+    const dense: Point[] = [points[0]];
+    for (let i = 1; i < points.length; i++) {
+        const a = points[i - 1];
+        const b = points[i];
+        const n = Math.ceil(distance(a, b) / step);
+        for (let k = 1; k < n; k++) dense.push(lerpPoint(a, b, k / n));
+        dense.push(b);
+    }
+
+    const erased = dense.map(p => nearEraser(p) && distanceToPath(p, eraserPath) < radius);
+    if (!erased.some(Boolean)) return null;
+
+    const runs: Point[][] = [];
+    let run: Point[] = [];
+    dense.forEach((p, i) => {
+        if (erased[i]) {
+            if (run.length > 0) runs.push(run);
+            run = [];
+        } else {
+            run.push(p);
+        }
+    });
+    if (run.length > 0) runs.push(run);
+
+    // A single leftover dot is not worth keeping
+    return runs.filter(r => r.length >= 2);
+}
+
+export interface Rectangle { x: number; y: number; width: number; height: number; }
+
+// Barb end points of an arrow head at `end`
+export function getArrowHead(start: Point, end: Point, headSize: number): [Point, Point] {
+    const angle = Math.atan2(end.y - start.y, end.x - start.x);
+    const spread = Math.PI / 6;
+    return [
+        { x: end.x - headSize * Math.cos(angle - spread), y: end.y - headSize * Math.sin(angle - spread) },
+        { x: end.x - headSize * Math.cos(angle + spread), y: end.y - headSize * Math.sin(angle + spread) }
+    ];
+}
+
+/**
+ * Polyline(s) tracing a shape's geometry, used for bounds and hit-testing.
+ * Closed shapes repeat their first point at the end.
+ */
+export function getShapePaths(shape: Shape): Point[][] {
+    const p = shape.params;
+    switch (shape.type) {
+        case 'line':
+            return [[p.start, p.end]];
+        case 'arrow': {
+            const [a, b] = getArrowHead(p.start, p.end, p.headSize);
+            return [[p.start, p.end], [a, p.end, b]];
+        }
+        case 'rect': {
+            const center = { x: p.x + p.width / 2, y: p.y + p.height / 2 };
+            const corners = [
+                { x: p.x, y: p.y }, { x: p.x + p.width, y: p.y },
+                { x: p.x + p.width, y: p.y + p.height }, { x: p.x, y: p.y + p.height }
+            ].map(c => rotatePoint(c, center, p.rotation || 0));
+            return [[...corners, corners[0]]];
+        }
+        case 'circle':
+        case 'ellipse': {
+            const rx = shape.type === 'circle' ? p.radius : p.rx;
+            const ry = shape.type === 'circle' ? p.radius : p.ry;
+            const rotation = shape.type === 'ellipse' ? (p.rotation || 0) : 0;
+            const outline: Point[] = [];
+            const steps = 48;
+            for (let i = 0; i <= steps; i++) {
+                const a = (i / steps) * Math.PI * 2;
+                outline.push(rotatePoint({ x: p.x + rx * Math.cos(a), y: p.y + ry * Math.sin(a) }, p, rotation));
             }
+            return [outline];
         }
+        case 'triangle':
+        case 'diamond':
+        case 'polygon':
+            return [[...p.points, p.points[0]]];
     }
+    return [];
+}
 
-    return null;
+export function rectCorners(r: Rectangle): Point[] {
+    return [
+        { x: r.x, y: r.y }, { x: r.x + r.width, y: r.y },
+        { x: r.x + r.width, y: r.y + r.height }, { x: r.x, y: r.y + r.height }
+    ];
 }
 
-export interface Rectangle { x: number; y: number; width: number; height: number; }
+export function boundsOfPoints(points: Point[]): Rectangle {
+    if (points.length === 0) return { x: 0, y: 0, width: 0, height: 0 };
+    let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
+    for (const p of points) {
+        if (p.x < minX) minX = p.x;
+        if (p.x > maxX) maxX = p.x;
+        if (p.y < minY) minY = p.y;
+        if (p.y > maxY) maxY = p.y;
+    }
+    return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
+
+// Union of element bounds (e.g. for a selection)
+export function getElementsBounds(elements: DrawingElement[]): Rectangle | null {
+    if (elements.length === 0) return null;
+    const corners = elements.flatMap(el => rectCorners(getBounds(el)));
+    return boundsOfPoints(corners);
+}
+
+export function getImageCorners(image: ImageElement): Point[] {
+    const center = { x: image.x + image.width / 2, y: image.y + image.height / 2 };
+    return rectCorners(image).map(c => rotatePoint(c, center, image.rotation || 0));
+}
 
 export function getBounds(element: DrawingElement): Rectangle {
     if (element.type === 'stroke') {
@@ -90,30 +466,102 @@ export function getBounds(element: DrawingElement): Rectangle {
         // Add stroke width padding
         const padding = element.width / 2;
         return { x: minX - padding, y: minY - padding, width: maxX - minX + element.width, height: maxY - minY + element.width };
-    } else if (element.type === 'line') {
-        const { start, end } = element.params;
-        const minX = Math.min(start.x, end.x);
-        const maxX = Math.max(start.x, end.x);
-        const minY = Math.min(start.y, end.y);
-        const maxY = Math.max(start.y, end.y);
+    } else if (element.type === 'text') {
+        const box = getTextBox(element);
+        if (!element.rotation) return box;
+        return boundsOfPoints(rectCorners(box).map(c => rotatePoint(c, element, element.rotation!)));
+    } else if (element.type === 'image') {
+        return boundsOfPoints(getImageCorners(element));
+    } else {
+        let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
+        for (const path of getShapePaths(element)) {
+            for (const p of path) {
+                if (p.x < minX) minX = p.x;
+                if (p.x > maxX) maxX = p.x;
+                if (p.y < minY) minY = p.y;
+                if (p.y > maxY) maxY = p.y;
+            }
+        }
+        if (minX === Infinity) return { x: 0, y: 0, width: 0, height: 0 };
         const padding = element.width / 2;
         return { x: minX - padding, y: minY - padding, width: maxX - minX + element.width, height: maxY - minY + element.width };
-    } else if (element.type === 'rect') {
-        const { x, y, width, height } = element.params;
-        const padding = element.width / 2;
-        return { x: x - padding, y: y - padding, width: width + element.width, height: height + element.width };
-    } else if (element.type === 'circle') {
-        const { x, y, radius } = element.params;
-        const padding = element.width / 2;
-        const size = (radius + padding) * 2;
-        return { x: x - radius - padding, y: y - radius - padding, width: size, height: size };
-    } else if (element.type === 'text') {
-        // Approximate bounds for text (since we don't have measureText here)
-        // Assume rough aspect ratio or logic.
-        // Or updated externally? For now, simple approximation:
-        const approximateWidth = element.content.length * (element.fontSize * 0.6);
-        const approximateHeight = element.fontSize * 1.2;
-        return { x: element.x, y: element.y - element.fontSize, width: approximateWidth, height: approximateHeight };
-    }
-    return { x: 0, y: 0, width: 0, height: 0 };
+    }
+}
+
+export function isPointNearElement(point: Point, el: DrawingElement, threshold: number = 10): boolean {
+    if (el.type === 'stroke') {
+        const t = threshold + el.width / 2;
+        let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
+        for (const p of el.points) {
+            minX = Math.min(minX, p.x); maxX = Math.max(maxX, p.x);
+            minY = Math.min(minY, p.y); maxY = Math.max(maxY, p.y);
+        }
+        if (point.x < minX - t || point.x > maxX + t || point.y < minY - t || point.y > maxY + t) return false;
+        for (let i = 0; i < el.points.length - 1; i++) {
+            if (distanceToSegment(point, el.points[i], el.points[i + 1]) < t) return true;
+        }
+        return false;
+    }
+
+    if (el.type === 'text') {
+        // Test the measured box in the text's own (unrotated) frame
+        const box = getTextBox(el);
+        const local = rotatePoint(point, el, -(el.rotation || 0));
+        return local.x >= box.x - threshold && local.x <= box.x + box.width + threshold &&
+            local.y >= box.y - threshold && local.y <= box.y + box.height + threshold;
+    }
+
+    if (el.type === 'image') {
+        // Images are solid: anywhere inside counts
+        const local = rotatePoint(point, { x: el.x + el.width / 2, y: el.y + el.height / 2 }, -(el.rotation || 0));
+        return local.x >= el.x - threshold && local.x <= el.x + el.width + threshold &&
+            local.y >= el.y - threshold && local.y <= el.y + el.height + threshold;
+    }
+
+    // Shapes: distance to any edge of their outline
+    const t = threshold + el.width / 2;
+    for (const path of getShapePaths(el)) {
+        for (let i = 0; i < path.length - 1; i++) {
+            if (distanceToSegment(point, path[i], path[i + 1]) < t) return true;
+        }
+    }
+    return false;
+}
+
+// Even-odd ray casting
+export function isPointInPolygon(p: Point, polygon: Point[]): boolean {
+    let inside = false;
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+        const a = polygon[i];
+        const b = polygon[j];
+        if ((a.y > p.y) !== (b.y > p.y) && p.x < ((b.x - a.x) * (p.y - a.y)) / (b.y - a.y) + a.x) {
+            inside = !inside;
+        }
+    }
+    return inside;
+}
+
+// Representative points of an element's geometry, for "how much of it is inside" tests
+export function getElementSamplePoints(el: DrawingElement): Point[] {
+    if (el.type === 'stroke') return el.points;
+    if (el.type === 'text' || el.type === 'image') {
+        const b = getBounds(el);
+        const samples: Point[] = [];
+        for (let i = 0; i <= 4; i++) {
+            for (let j = 0; j <= 2; j++) {
+                samples.push({ x: b.x + (b.width * i) / 4, y: b.y + (b.height * j) / 2 });
+            }
+        }
+        return samples;
+    }
+    return getShapePaths(el).flat();
+}
+
+// Share (0..1) of the element's geometry that lies inside the polygon
+export function enclosedFraction(el: DrawingElement, polygon: Point[]): number {
+    if (polygon.length < 3) return 0;
+    const samples = getElementSamplePoints(el);
+    if (samples.length === 0) return 0;
+    const inside = samples.filter(p => isPointInPolygon(p, polygon)).length;
+    return inside / samples.length;
 }
@@ -1,4 +1,5 @@
 import type { Note } from '../db/db';
+import { findWikiLinks, parseWikiLink, type WikiLink } from './wikiLinks';
 
 export interface GraphNode {
     id: string;
@@ -37,14 +38,15 @@ export const extractLinks = (notes: Note[]): GraphData => {
         }
     });
 
+    // Id links point straight at a note (if it is in this graph); title links go through the title map
+    const noteIds = new Set(notes.map(n => n.id));
+    const resolve = (link: WikiLink) => link.noteId ? (noteIds.has(link.noteId) ? link.noteId : undefined) : noteIdMap.get(link.target);
+
     notes.forEach(note => {
-        // 1. Text Links: [[Title]]
+        // 1. Text Links: [[Title]], [[Title|text]], [[Title#heading]]
         const content = note.content || '';
-        const regex = /\[\[(.*?)\]\]/g;
-        let match;
-        while ((match = regex.exec(content)) !== null) {
-            const linkedTitle = match[1];
-            const targetId = noteIdMap.get(linkedTitle);
+        for (const link of findWikiLinks(content)) {
+            const targetId = resolve(link);
             if (targetId && targetId !== note.id) {
                 // Check if edge already exists to avoid duplicates
                 const exists = edges.some(e =>
@@ -60,7 +62,7 @@ export const extractLinks = (notes: Note[]): GraphData => {
         if (note.drawings) {
             note.drawings.forEach((el: any) => {
                 if (el.link) {
-                    const targetId = noteIdMap.get(el.link);
+                    const targetId = resolve(parseWikiLink(el.link));
                     if (targetId && targetId !== note.id) {
                         const exists = edges.some(e =>
                             (e.source === note.id && e.target === targetId)
@@ -0,0 +1,104 @@
+import type { DrawingElement } from './geometry';
+import type { Layer } from './layers';
+
+/**
+ * A single reversible change to a note's drawing.
+ * 'update' covers both moves and edits: the element keeps its id but its content changes.
+ * 'layers' swaps the whole layer list, for steps that change layers along with their elements (deleting a layer).
+ */
+export type HistoryOp =
+    | { type: 'add'; index: number; element: DrawingElement }
+    | { type: 'remove'; index: number; element: DrawingElement }
+    | { type: 'update'; before: DrawingElement; after: DrawingElement }
+    | { type: 'layers'; before: Layer[]; after: Layer[] };
+
+// One undo step (e.g. a stroke, a drag of several elements, an erase)
+export interface HistoryEntry { ops: HistoryOp[]; at: number }
+
+export const MAX_HISTORY_ENTRIES = 200;
+
+// Positions (into `indices`) of a longest strictly increasing run, O(n log n)
+function longestIncreasing(indices: number[]): Set<number> {
+    const tails: number[] = [];
+    const parent = new Array<number>(indices.length).fill(-1);
+    indices.forEach((value, i) => {
+        let lo = 0, hi = tails.length;
+        while (lo < hi) {
+            const mid = (lo + hi) >> 1;
+            if (indices[tails[mid]] < value) lo = mid + 1;
+            else hi = mid;
+        }
+        if (lo > 0) parent[i] = tails[lo - 1];
+        tails[lo] = i;
+    });
+    const result = new Set<number>();
+    for (let i = tails.length ? tails[tails.length - 1] : -1; i >= 0; i = parent[i]) result.add(i);
+    return result;
+}
+
+/**
+ * Describe how `prev` became `next` as ops (removes, then updates, then adds in index order).
+ * Elements that changed z-order are recorded as a remove plus an add, so reordering is undoable too.
+ */
+export function diffElements(prev: DrawingElement[], next: DrawingElement[]): HistoryOp[] {
+    const prevById = new Map(prev.map((el, index) => [el.id, { el, index }]));
+
+    // Kept elements outside the longest run that's still in order are the ones that moved
+    const kept = next.filter(el => prevById.has(el.id));
+    const inOrder = longestIncreasing(kept.map(el => prevById.get(el.id)!.index));
+    const moved = new Set(kept.filter((_el, i) => !inOrder.has(i)).map(el => el.id));
+    const stays = new Set(kept.filter(el => !moved.has(el.id)).map(el => el.id));
+
+    const removes: HistoryOp[] = [];
+    prev.forEach((el, index) => {
+        if (!stays.has(el.id)) removes.push({ type: 'remove', index, element: el });
+    });
+    removes.reverse();
+
+    const updates: HistoryOp[] = [];
+    const adds: HistoryOp[] = [];
+    next.forEach((el, index) => {
+        const before = prevById.get(el.id);
+        if (!before || moved.has(el.id)) {
+            adds.push({ type: 'add', index, element: el });
+        } else if (before.el !== el && JSON.stringify(before.el) !== JSON.stringify(el)) {
+            updates.push({ type: 'update', before: before.el, after: el });
+        }
+    });
+
+    return [...removes, ...updates, ...adds];
+}
+
+// Ops are matched by element id, so they still apply if the saved drawing drifted slightly
+export function applyOps(elements: DrawingElement[], ops: HistoryOp[]): DrawingElement[] {
+    let result = elements.slice();
+    for (const op of ops) {
+        if (op.type === 'add') {
+            if (result.some(el => el.id === op.element.id)) continue;
+            result.splice(Math.min(op.index, result.length), 0, op.element);
+        } else if (op.type === 'remove') {
+            result = result.filter(el => el.id !== op.element.id);
+        } else if (op.type === 'update') {
+            result = result.map(el => el.id === op.after.id ? op.after : el);
+        }
+    }
+    return result;
+}
+
+// The layers after `ops`, or null if they don't touch layers
+export function applyLayerOps(ops: HistoryOp[]): Layer[] | null {
+    let result: Layer[] | null = null;
+    for (const op of ops) {
+        if (op.type === 'layers') result = op.after;
+    }
+    return result;
+}
+
+export function invertOps(ops: HistoryOp[]): HistoryOp[] {
+    return ops.slice().reverse().map((op): HistoryOp => {
+        if (op.type === 'add') return { type: 'remove', index: op.index, element: op.element };
+        if (op.type === 'remove') return { type: 'add', index: op.index, element: op.element };
+        if (op.type === 'layers') return { type: 'layers', before: op.after, after: op.before };
+        return { type: 'update', before: op.after, after: op.before };
+    });
+}
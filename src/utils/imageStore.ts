@@ -0,0 +1,87 @@
+import { v4 as uuidv4 } from 'uuid';
+import { db } from '../db/db';
+
+// Decoded images by id, shared by every editor instance
+const cache = new Map<string, HTMLImageElement>();
+const pending = new Map<string, Promise<HTMLImageElement | null>>();
+
+function decode(blob: Blob): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
+        const url = URL.createObjectURL(blob);
+        const img = new Image();
+        img.onload = () => resolve(img);
+        img.onerror = () => {
+            URL.revokeObjectURL(url);
+            reject(new Error('Could not decode image'));
+        };
+        img.src = url;
+    });
+}
+
+// For formats that carry images inline (SVG exports, backups)
+export const blobToDataUrl = (blob: Blob) => new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+});
+
+// Re-encode images larger than maxSize (e.g. camera photos) so the database stays small
+async function downscale(img: HTMLImageElement, blob: Blob, maxSize: number): Promise<{ img: HTMLImageElement, blob: Blob }> {
+    const scale = maxSize / Math.max(img.naturalWidth, img.naturalHeight);
+    if (scale >= 1) return { img, blob };
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(img.naturalWidth * scale);
+    canvas.height = Math.round(img.naturalHeight * scale);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return { img, blob };
+    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+
+    const type = blob.type === 'image/png' ? 'image/png' : 'image/jpeg';
+    const resized = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, type, 0.9));
+    if (!resized) return { img, blob };
+    URL.revokeObjectURL(img.src);
+    return { img: await decode(resized), blob: resized };
+}
+
+// Store an image blob and return its id and natural size
+export async function saveImageBlob(original: Blob, maxSize: number = 2048): Promise<{ id: string, width: number, height: number }> {
+    const { img, blob } = await downscale(await decode(original), original, maxSize);
+    const id = uuidv4();
+    await db.images.add({ id, blob, width: img.naturalWidth, height: img.naturalHeight, createdAt: Date.now() });
+    cache.set(id, img);
+    return { id, width: img.naturalWidth, height: img.naturalHeight };
+}
+
+export function loadImage(id: string): Promise<HTMLImageElement | null> {
+    const cached = cache.get(id);
+    if (cached) return Promise.resolve(cached);
+
+    let request = pending.get(id);
+    if (!request) {
+        request = db.images.get(id)
+            .then(stored => stored ? decode(stored.blob) : null)
+            .then(img => {
+                if (img) cache.set(id, img);
+                return img;
+            })
+            .catch(e => {
+                console.warn(`Image ${id} failed to load:`, e);
+                return null;
+            })
+            .finally(() => pending.delete(id));
+        pending.set(id, request);
+    }
+    return request;
+}
+
+/**
+ * Synchronous lookup for render loops: returns the image if it is decoded,
+ * otherwise starts loading it and calls onReady once it is.
+ */
+export function getCachedImage(id: string, onReady: () => void): HTMLImageElement | undefined {
+    const img = cache.get(id);
+    if (!img) loadImage(id).then(loaded => loaded && onReady());
+    return img;
+}
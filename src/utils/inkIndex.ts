@@ -0,0 +1,149 @@
+import { db, type Note } from '../db/db';
+import { getBounds, type DrawingElement, type Rectangle, type Stroke } from './geometry';
+import { DEFAULT_OCR_LANGUAGE, imageToWorld, recognizeText, renderStrokesForOcr, type OcrLanguage } from './ocr';
+import { loadSetting } from './settings';
+
+// Handwriting made searchable: ink is grouped into clusters of nearby strokes and each cluster is
+// recognized in the background. Results are stored next to the drawing (Note.ink); strokes are never changed.
+
+export interface InkText {
+    key: string; // Identifies the strokes and where they were; a different key means recognizing again
+    strokeIds: string[];
+    bounds: Rectangle; // World coordinates
+    text: string; // Empty for ink that isn't writing, so it isn't tried again
+    lines: { text: string, bounds: Rectangle }[];
+}
+
+export interface StrokeCluster {
+    key: string;
+    strokes: Stroke[];
+    bounds: Rectangle;
+}
+
+const CLUSTER_GAP = 30; // Strokes closer than this (world px) belong to the same writing
+const MIN_CONFIDENCE = 40; // Tesseract's 0..100; below this, lines are mostly noise
+const INDEX_DELAY = 5000; // Wait for a pause in writing before recognizing
+
+// FNV-1a, enough to tell cluster contents apart without storing every id twice
+function hash(text: string): string {
+    let h = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        h ^= text.charCodeAt(i);
+        h = Math.imul(h, 0x01000193);
+    }
+    return (h >>> 0).toString(16);
+}
+
+const union = (a: Rectangle, b: Rectangle): Rectangle => {
+    const x = Math.min(a.x, b.x), y = Math.min(a.y, b.y);
+    return { x, y, width: Math.max(a.x + a.width, b.x + b.width) - x, height: Math.max(a.y + a.height, b.y + b.height) - y };
+};
+
+// Groups pen strokes (not highlighter) whose bounds come within CLUSTER_GAP of each other
+export function clusterStrokes(elements: DrawingElement[]): StrokeCluster[] {
+    const strokes = elements
+        .filter((el): el is Stroke => el.type === 'stroke' && !el.highlighter && el.points.length > 0)
+        .map(stroke => ({ stroke, bounds: getBounds(stroke) }))
+        .sort((a, b) => a.bounds.x - b.bounds.x);
+
+    const parent = strokes.map((_, i) => i);
+    const find = (i: number): number => parent[i] === i ? i : (parent[i] = find(parent[i]));
+
+    // Sweep along x: only strokes starting before this one's right edge (plus the gap) can touch it
+    for (let i = 0; i < strokes.length; i++) {
+        const a = strokes[i].bounds;
+        for (let j = i + 1; j < strokes.length && strokes[j].bounds.x <= a.x + a.width + CLUSTER_GAP; j++) {
+            const b = strokes[j].bounds;
+            if (b.y <= a.y + a.height + CLUSTER_GAP && a.y <= b.y + b.height + CLUSTER_GAP) parent[find(j)] = find(i);
+        }
+    }
+
+    const groups = new Map<number, { stroke: Stroke, bounds: Rectangle }[]>();
+    strokes.forEach((s, i) => {
+        const root = find(i);
+        groups.set(root, [...(groups.get(root) || []), s]);
+    });
+
+    return [...groups.values()].map(members => {
+        const bounds = members.map(m => m.bounds).reduce(union);
+        const ids = members.map(m => m.stroke.id).sort();
+        return {
+            key: hash(`${ids.join(',')}@${Math.round(bounds.x)},${Math.round(bounds.y)},${Math.round(bounds.width)},${Math.round(bounds.height)}`),
+            strokes: members.map(m => m.stroke),
+            bounds
+        };
+    });
+}
+
+async function recognizeCluster(cluster: StrokeCluster): Promise<InkText> {
+    const image = renderStrokesForOcr(cluster.strokes, cluster.bounds);
+    const { lines: recognized } = await recognizeText(image.canvas, loadSetting<OcrLanguage>('ocrLanguage', DEFAULT_OCR_LANGUAGE), undefined, true);
+    const lines = recognized
+        .filter(line => line.confidence >= MIN_CONFIDENCE)
+        .map(line => ({ text: line.text, bounds: imageToWorld(image, line.bbox) }));
+    return {
+        key: cluster.key,
+        strokeIds: cluster.strokes.map(s => s.id),
+        bounds: cluster.bounds,
+        text: lines.map(l => l.text).join('\n'),
+        lines
+    };
+}
+
+// Recognizes clusters that are new or changed; known ones are kept, vanished ones dropped
+async function indexNoteInk(noteId: string) {
+    const note = await db.notes.get(noteId);
+    if (!note) return;
+    const known = new Map((note.ink || []).map(ink => [ink.key, ink]));
+    const clusters = clusterStrokes(note.drawings || []);
+
+    const ink: InkText[] = [];
+    for (const cluster of clusters) {
+        ink.push(known.get(cluster.key) ?? await recognizeCluster(cluster));
+    }
+
+    const unchanged = ink.length === known.size && ink.every(i => known.has(i.key));
+    // Only `ink` is written, so this never races the editor's autosave of the drawing itself
+    if (!unchanged) await db.notes.update(noteId, { ink });
+}
+
+const timers = new Map<string, ReturnType<typeof setTimeout>>();
+let queue: Promise<void> = Promise.resolve();
+
+// Index a note's handwriting once writing pauses; notes are processed one at a time
+export function requestInkIndex(noteId: string) {
+    const pending = timers.get(noteId);
+    if (pending) clearTimeout(pending);
+    timers.set(noteId, setTimeout(() => {
+        timers.delete(noteId);
+        queue = queue.then(() => indexNoteInk(noteId)).catch(e => {
+            // Typically OCR data that can't be loaded (offline); the next request tries again
+            console.warn('Handwriting indexing failed:', e);
+        });
+    }, INDEX_DELAY));
+}
+
+const hasUnindexedInk = (note: Note) => {
+    const known = new Set((note.ink || []).map(ink => ink.key));
+    return clusterStrokes(note.drawings || []).some(cluster => !known.has(cluster.key));
+};
+
+/**
+ * Index handwriting that no editor session has: notes written before indexing existed, imported ones,
+ * or ones closed before the delay ran out. Notes go through the same queue one at a time, so the
+ * note being edited is never stuck behind the whole sweep.
+ */
+export async function indexMissingInk() {
+    await new Promise(resolve => setTimeout(resolve, INDEX_DELAY));
+    const noteIds: string[] = [];
+    await db.notes.each(note => {
+        if (hasUnindexedInk(note)) noteIds.push(note.id);
+    });
+    for (const noteId of noteIds) {
+        if (timers.has(noteId)) continue; // The editor has it
+        const step = queue.then(() => indexNoteInk(noteId));
+        queue = step.catch(() => {});
+        // Failures stop the sweep (offline OCR data would fail every note); the next start tries again
+        await step;
+    }
+}
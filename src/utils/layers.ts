@@ -0,0 +1,70 @@
+import type { DrawingElement } from './geometry';
+
+// Layers are stored per note, bottom first; elements point at theirs through `layerId`
+export interface Layer {
+    id: string;
+    name: string;
+    visible: boolean;
+    locked: boolean;
+    opacity: number; // 0-1, multiplied into each element's own opacity
+}
+
+export const BACKGROUND_LAYER_ID = 'background';
+export const DEFAULT_LAYER_ID = 'default';
+
+// Every note starts with a locked background (templates, imported PDFs) under a normal drawing layer
+export const defaultLayers = (): Layer[] => [
+    { id: BACKGROUND_LAYER_ID, name: 'Background', visible: true, locked: true, opacity: 1 },
+    { id: DEFAULT_LAYER_ID, name: 'Layer 1', visible: true, locked: false, opacity: 1 }
+];
+
+/**
+ * The layer an element is drawn on.
+ * Elements from before layers existed (or whose layer is gone) fall back to the default layer, else the top one.
+ */
+export function resolveLayerId(el: DrawingElement, layers: Layer[]): string {
+    if (el.layerId && layers.some(l => l.id === el.layerId)) return el.layerId;
+    if (layers.some(l => l.id === DEFAULT_LAYER_ID)) return DEFAULT_LAYER_ID;
+    return layers.length > 0 ? layers[layers.length - 1].id : DEFAULT_LAYER_ID;
+}
+
+// Visible layers bottom to top, each with its elements in array (z) order
+export function groupByLayer(elements: DrawingElement[], layers: Layer[]): { layer: Layer, elements: DrawingElement[] }[] {
+    const groups = new Map(layers.map(layer => [layer.id, [] as DrawingElement[]]));
+    elements.forEach(el => groups.get(resolveLayerId(el, layers))?.push(el));
+    return layers
+        .filter(layer => layer.visible)
+        .map(layer => ({ layer, elements: groups.get(layer.id)! }));
+}
+
+// Every element of the visible layers in paint order, with its layer's opacity.
+// Within a layer, highlighter ink always sits under regular ink.
+export function paintOrder(elements: DrawingElement[], layers: Layer[]): { el: DrawingElement, layerOpacity: number }[] {
+    const isHighlight = (el: DrawingElement) => el.type === 'stroke' && !!el.highlighter;
+    return groupByLayer(elements, layers).flatMap(({ layer, elements: layerElements }) => [
+        ...layerElements.filter(isHighlight),
+        ...layerElements.filter(el => !isHighlight(el))
+    ].map(el => ({ el, layerOpacity: layer.opacity })));
+}
+
+// Z-order only matters within a layer, so moving to the ends of the array is enough
+export function bringToFront(elements: DrawingElement[], ids: Set<string>): DrawingElement[] {
+    return [...elements.filter(el => !ids.has(el.id)), ...elements.filter(el => ids.has(el.id))];
+}
+
+export function sendToBack(elements: DrawingElement[], ids: Set<string>): DrawingElement[] {
+    return [...elements.filter(el => ids.has(el.id)), ...elements.filter(el => !ids.has(el.id))];
+}
+
+// The id of the one layer whose opacity (and nothing else) differs between two lists, if that's the whole change
+export function opacityChange(before: Layer[], after: Layer[]): string | null {
+    if (before.length !== after.length) return null;
+    let changed: string | null = null;
+    for (let i = 0; i < before.length; i++) {
+        const a = before[i], b = after[i];
+        if (a === b) continue;
+        if (changed || a.id !== b.id || a.name !== b.name || a.visible !== b.visible || a.locked !== b.locked) return null;
+        changed = a.id;
+    }
+    return changed;
+}
@@ -0,0 +1,185 @@
+import { parseWikiLink, type WikiLink } from './wikiLinks';
+
+// Small Markdown parser for note content: the GFM subset notes use, plus [[wiki links]].
+// Blocks remember their source line so task checkboxes can be written back.
+
+export type MarkdownInline =
+    | { type: 'text'; text: string }
+    | { type: 'code'; text: string }
+    | { type: 'strong' | 'em' | 'del'; children: MarkdownInline[] }
+    | { type: 'link'; href: string; children: MarkdownInline[] }
+    | ({ type: 'wikilink'; raw: string } & WikiLink);
+
+export interface MarkdownListItem {
+    line: number; // 0-based source line
+    depth: number; // Nesting level from indentation
+    ordered: boolean;
+    checked?: boolean; // Task items only
+    children: MarkdownInline[];
+}
+
+export type TableAlign = 'left' | 'center' | 'right' | null;
+
+export type MarkdownBlock =
+    | { type: 'heading'; level: number; children: MarkdownInline[] }
+    | { type: 'paragraph'; children: MarkdownInline[] }
+    | { type: 'code'; lang: string; text: string }
+    | { type: 'list'; items: MarkdownListItem[] }
+    | { type: 'table'; align: TableAlign[]; header: MarkdownInline[][]; rows: MarkdownInline[][][] }
+    | { type: 'quote'; children: MarkdownBlock[] }
+    | { type: 'hr' };
+
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const FENCE = /^\s*(```|~~~)\s*([\w+-]*)/;
+const LIST_ITEM = /^(\s*)([-*+]|\d+[.)])\s+(?:\[([ xX])\]\s+)?(.*)$/;
+const HR = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const QUOTE = /^\s*>\s?(.*)$/;
+const TABLE_DIVIDER = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+// Inline syntax, earliest match wins; order matters where patterns overlap (** before *)
+const INLINE_PATTERNS: { type: string; pattern: RegExp }[] = [
+    { type: 'code', pattern: /`([^`]+)`/ },
+    { type: 'wikilink', pattern: /\[\[([^[\]\n]+?)\]\]/ },
+    { type: 'link', pattern: /\[([^\]]+)\]\(([^)\s]+)\)/ },
+    { type: 'autolink', pattern: /https?:\/\/[^\s<>()]+/ },
+    { type: 'strong', pattern: /\*\*(.+?)\*\*|__(.+?)__/ },
+    { type: 'del', pattern: /~~(.+?)~~/ },
+    { type: 'em', pattern: /\*([^*]+)\*|\b_([^_]+)_\b/ }
+];
+
+export function parseInline(text: string): MarkdownInline[] {
+    const result: MarkdownInline[] = [];
+    let rest = text;
+    while (rest) {
+        let best: { type: string; match: RegExpExecArray } | null = null;
+        for (const { type, pattern } of INLINE_PATTERNS) {
+            const match = pattern.exec(rest);
+            if (match && (!best || match.index < best.match.index)) best = { type, match };
+        }
+        if (!best) {
+            result.push({ type: 'text', text: rest });
+            break;
+        }
+
+        const { type, match } = best;
+        if (match.index > 0) result.push({ type: 'text', text: rest.slice(0, match.index) });
+        if (type === 'code') result.push({ type: 'code', text: match[1] });
+        else if (type === 'wikilink') result.push({ type: 'wikilink', raw: match[1], ...parseWikiLink(match[1]) });
+        else if (type === 'link') result.push({ type: 'link', href: match[2], children: parseInline(match[1]) });
+        else if (type === 'autolink') result.push({ type: 'link', href: match[0], children: [{ type: 'text', text: match[0] }] });
+        else result.push({ type: type as 'strong' | 'em' | 'del', children: parseInline(match[1] ?? match[2]) });
+        rest = rest.slice(match.index + match[0].length);
+    }
+    return result;
+}
+
+const splitRow = (line: string): string[] =>
+    line.trim().replace(/^\|/, '').replace(/\|$/, '').split('|').map(cell => cell.trim());
+
+const isBlockStart = (line: string, next: string | undefined) =>
+    HEADING.test(line) || FENCE.test(line) || LIST_ITEM.test(line) || HR.test(line) || QUOTE.test(line) ||
+    (line.includes('|') && next !== undefined && TABLE_DIVIDER.test(next));
+
+export function parseMarkdown(source: string, lineOffset: number = 0): MarkdownBlock[] {
+    const lines = source.split('\n');
+    const blocks: MarkdownBlock[] = [];
+    let i = 0;
+
+    while (i < lines.length) {
+        const line = lines[i];
+
+        if (!line.trim()) {
+            i++;
+            continue;
+        }
+
+        const fence = FENCE.exec(line);
+        if (fence) {
+            const body: string[] = [];
+            i++;
+            while (i < lines.length && !lines[i].trim().startsWith(fence[1])) body.push(lines[i++]);
+            i++; // Closing fence (or end of note)
+            blocks.push({ type: 'code', lang: fence[2], text: body.join('\n') });
+            continue;
+        }
+
+        const heading = HEADING.exec(line);
+        if (heading) {
+            blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2]) });
+            i++;
+            continue;
+        }
+
+        // Before lists: "---" / "* * *" would otherwise look like a bullet
+        if (HR.test(line)) {
+            blocks.push({ type: 'hr' });
+            i++;
+            continue;
+        }
+
+        if (LIST_ITEM.test(line)) {
+            const items: MarkdownListItem[] = [];
+            let match: RegExpExecArray | null;
+            while (i < lines.length && (match = LIST_ITEM.exec(lines[i]))) {
+                items.push({
+                    line: lineOffset + i,
+                    depth: Math.floor(match[1].replace(/\t/g, '    ').length / 2),
+                    ordered: /\d/.test(match[2]),
+                    ...(match[3] !== undefined ? { checked: match[3] !== ' ' } : {}),
+                    children: parseInline(match[4])
+                });
+                i++;
+            }
+            blocks.push({ type: 'list', items });
+            continue;
+        }
+
+        if (QUOTE.test(line)) {
+            const start = i;
+            const body: string[] = [];
+            let match: RegExpExecArray | null;
+            while (i < lines.length && (match = QUOTE.exec(lines[i]))) {
+                body.push(match[1]);
+                i++;
+            }
+            blocks.push({ type: 'quote', children: parseMarkdown(body.join('\n'), lineOffset + start) });
+            continue;
+        }
+
+        if (line.includes('|') && i + 1 < lines.length && TABLE_DIVIDER.test(lines[i + 1])) {
+            const header = splitRow(line);
+            const align = splitRow(lines[i + 1]).map((cell): TableAlign => {
+                const left = cell.startsWith(':'), right = cell.endsWith(':');
+                return left && right ? 'center' : right ? 'right' : left ? 'left' : null;
+            });
+            const rows: MarkdownInline[][][] = [];
+            i += 2;
+            while (i < lines.length && lines[i].includes('|') && lines[i].trim()) {
+                rows.push(splitRow(lines[i]).map(parseInline));
+                i++;
+            }
+            blocks.push({ type: 'table', align, header: header.map(parseInline), rows });
+            continue;
+        }
+
+        // Paragraph: runs until a blank line or another block starts; line breaks are kept
+        const body: string[] = [line];
+        i++;
+        while (i < lines.length && lines[i].trim() && !isBlockStart(lines[i], lines[i + 1])) body.push(lines[i++]);
+        blocks.push({ type: 'paragraph', children: parseInline(body.join('\n')) });
+    }
+
+    return blocks;
+}
+
+// Flip the task checkbox on a source line; other lines are returned untouched
+export function toggleTask(source: string, line: number): string {
+    const lines = source.split('\n');
+    // Tasks inside (nested) quotes keep their "> " markers
+    const [prefix] = /^(?:\s*>\s?)*/.exec(lines[line] ?? '')!;
+    const item = (lines[line] ?? '').slice(prefix.length);
+    const match = LIST_ITEM.exec(item);
+    if (!match || match[3] === undefined) return source;
+    lines[line] = prefix + item.replace(/\[([ xX])\]/, match[3] === ' ' ? '[x]' : '[ ]');
+    return lines.join('\n');
+}
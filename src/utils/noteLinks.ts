@@ -0,0 +1,212 @@
+import type { Note } from '../db/db';
+import { findWikiLinks, formatWikiLink, noteLink, parseWikiLink, wikiLinkLabel, NOTE_ID_PREFIX, WIKI_LINK_PATTERN, type WikiLink } from './wikiLinks';
+
+// Rewrites links note-wide; kept free of db access so the schema upgrade can use it too
+
+// Returns the replacement for a link, 'unlink' to drop the link (text keeps its label), or null to leave it exactly as written
+export type LinkRewrite = (link: WikiLink) => WikiLink | 'unlink' | null;
+
+export function mapWikiLinks(text: string, rewrite: LinkRewrite): string {
+    let result = '';
+    let last = 0;
+    for (const match of findWikiLinks(text)) {
+        const next = rewrite(match);
+        const replacement = next === 'unlink' ? wikiLinkLabel(match) : next ? `[[${formatWikiLink(next)}]]` : text.slice(match.index, match.index + match.length);
+        result += text.slice(last, match.index) + replacement;
+        last = match.index + match.length;
+    }
+    return result + text.slice(last);
+}
+
+// The changed fields of a note (content and/or drawings), or null if no link changed
+export function rewriteNoteLinks(note: Pick<Note, 'content' | 'drawings'>, rewrite: LinkRewrite): Partial<Pick<Note, 'content' | 'drawings'>> | null {
+    const changes: Partial<Pick<Note, 'content' | 'drawings'>> = {};
+
+    const content = mapWikiLinks(note.content || '', rewrite);
+    if (content !== (note.content || '')) changes.content = content;
+
+    // Element links hold what would be between the brackets
+    let drawingsChanged = false;
+    const drawings = (note.drawings || []).map(el => {
+        if (!el.link) return el;
+        const next = rewrite(parseWikiLink(el.link));
+        if (!next) return el;
+        drawingsChanged = true;
+        if (next === 'unlink') {
+            const { link: _link, ...rest } = el;
+            return rest;
+        }
+        return { ...el, link: formatWikiLink(next) };
+    });
+    if (drawingsChanged) changes.drawings = drawings;
+
+    return Object.keys(changes).length > 0 ? changes : null;
+}
+
+// Title -> id the way title links have always resolved: the lowest id among notes sharing a title
+export function buildTitleIndex(notes: Pick<Note, 'id' | 'title'>[]): Map<string, string> {
+    const index = new Map<string, string>();
+    [...notes].sort((a, b) => a.id < b.id ? -1 : a.id > b.id ? 1 : 0).forEach(n => {
+        if (n.title && !index.has(n.title)) index.set(n.title, n.id);
+    });
+    return index;
+}
+
+// Title link -> id link (the title becomes the display text); unresolvable and id links stay
+export const toIdLink = (titleIndex: Map<string, string>): LinkRewrite => link => {
+    if (link.noteId) return null;
+    const noteId = titleIndex.get(link.target);
+    if (!noteId) return null;
+    return { ...link, noteId, display: link.display ?? link.target };
+};
+
+/**
+ * After note `noteId` was renamed: id links showing the old title show the new one (custom display text is kept),
+ * and title links that resolved to it become id links.
+ */
+export const renameLinks = (noteId: string, oldTitle: string, newTitle: string, titleIndex: Map<string, string>): LinkRewrite => link => {
+    if (link.noteId === noteId) {
+        return !link.display || link.display === oldTitle ? { ...link, display: newTitle } : null;
+    }
+    if (!link.noteId && link.target === oldTitle && titleIndex.get(oldTitle) === noteId) {
+        return { ...link, noteId, display: link.display ?? newTitle };
+    }
+    return null;
+};
+
+// Note text around [index, index + length) on one line, with links shown by their labels
+export function linkSnippet(text: string, index: number, length: number, radius: number = 40): string {
+    const start = Math.max(0, index - radius);
+    const end = Math.min(text.length, index + length + radius);
+    const body = text.slice(start, end).replace(WIKI_LINK_PATTERN, (_m, inner: string) => wikiLinkLabel(parseWikiLink(inner)));
+    return (start > 0 ? '…' : '') + body.replace(/\s+/g, ' ').trim() + (end < text.length ? '…' : '');
+}
+
+export interface Backlink {
+    noteId: string;
+    title: string;
+    snippets: string[]; // One per link; element links without text show as "(canvas)"
+}
+
+// Notes other than `target` that link to it, from their text or their canvas elements
+export function findBacklinks(notes: Note[], target: Pick<Note, 'id' | 'title'>, titleIndex: Map<string, string>): Backlink[] {
+    const pointsHere = (link: WikiLink) =>
+        link.noteId ? link.noteId === target.id : titleIndex.get(link.target) === target.id;
+
+    const result: Backlink[] = [];
+    for (const note of notes) {
+        if (note.id === target.id) continue;
+        const content = note.content || '';
+        const snippets = findWikiLinks(content)
+            .filter(pointsHere)
+            .map(link => linkSnippet(content, link.index, link.length));
+        (note.drawings || []).forEach(el => {
+            if (el.link && pointsHere(parseWikiLink(el.link))) {
+                snippets.push(el.type === 'text' ? el.content.replace(/\s+/g, ' ') : '(canvas)');
+            }
+        });
+        if (snippets.length > 0) result.push({ noteId: note.id, title: note.title, snippets });
+    }
+    return result;
+}
+
+export interface UnlinkedMention {
+    noteId: string;
+    title: string;
+    index: number; // Where the mention starts in that note's content
+    length: number;
+    snippet: string;
+}
+
+// Scripts written without spaces between words; a title in them can sit anywhere in a run
+const CJK = '\\p{sc=Han}\\p{sc=Hiragana}\\p{sc=Katakana}\\p{sc=Hangul}';
+// A letter or digit that would make a Latin (etc.) title part of a longer word
+const WORD_CHAR = `(?![${CJK}])[\\p{L}\\p{N}]`;
+const isCjk = (ch: string) => new RegExp(`[${CJK}]`, 'u').test(ch);
+
+// Matches `title` case-insensitively; ends that aren't CJK must fall on word boundaries ("Apple" not in "Pineapple")
+function mentionPattern(title: string): RegExp {
+    const chars = [...title];
+    const escaped = title.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const before = isCjk(chars[0]) ? '' : `(?<!${WORD_CHAR})`;
+    const after = isCjk(chars[chars.length - 1]) ? '' : `(?!${WORD_CHAR})`;
+    return new RegExp(before + escaped + after, 'giu');
+}
+
+// Places where another note's text names `target` outside of any link
+export function findUnlinkedMentions(notes: Note[], target: Pick<Note, 'id' | 'title'>): UnlinkedMention[] {
+    const title = target.title.trim();
+    if (!title) return [];
+    const pattern = mentionPattern(title);
+
+    const result: UnlinkedMention[] = [];
+    for (const note of notes) {
+        if (note.id === target.id) continue;
+        const content = note.content || '';
+        const links = findWikiLinks(content);
+        for (const match of content.matchAll(pattern)) {
+            const index = match.index!;
+            const length = match[0].length;
+            const insideLink = links.some(l => index < l.index + l.length && index + length > l.index);
+            if (!insideLink) {
+                result.push({ noteId: note.id, title: note.title, index, length, snippet: linkSnippet(content, index, length) });
+            }
+        }
+    }
+    return result;
+}
+
+// Turn one mention into an id link, keeping the text as it was written
+export function linkMention(content: string, mention: Pick<UnlinkedMention, 'index' | 'length'>, targetId: string): string {
+    const text = content.slice(mention.index, mention.index + mention.length);
+    return content.slice(0, mention.index) + `[[${noteLink(targetId, text)}]]` + content.slice(mention.index + mention.length);
+}
+
+// Identifies what a link points at, so equal targets written differently (alias, heading) group together
+export const linkTargetKey = (link: WikiLink): string => link.noteId ? NOTE_ID_PREFIX + link.noteId : link.target;
+
+export interface BrokenLink {
+    key: string; // linkTargetKey
+    link: WikiLink; // The first occurrence; its label names the missing note
+    count: number;
+    snippets: string[];
+}
+
+export interface BrokenLinkGroup {
+    noteId: string;
+    title: string;
+    folderId: string | null;
+    links: BrokenLink[];
+}
+
+// Links in text or on elements whose target note doesn't exist, grouped by the note holding them
+export function findBrokenLinks(notes: Note[]): BrokenLinkGroup[] {
+    const ids = new Set(notes.map(n => n.id));
+    const titleIndex = buildTitleIndex(notes);
+    // Heading-only links ([[#heading]]) have no target note to miss
+    const isBroken = (link: WikiLink) => link.noteId ? !ids.has(link.noteId) : !!link.target && !titleIndex.has(link.target);
+
+    const groups: BrokenLinkGroup[] = [];
+    for (const note of notes) {
+        const byKey = new Map<string, BrokenLink>();
+        const add = (link: WikiLink, snippet: string) => {
+            const key = linkTargetKey(link);
+            const entry = byKey.get(key) ?? { key, link, count: 0, snippets: [] };
+            entry.count++;
+            entry.snippets.push(snippet);
+            byKey.set(key, entry);
+        };
+
+        const content = note.content || '';
+        for (const link of findWikiLinks(content)) {
+            if (isBroken(link)) add(link, linkSnippet(content, link.index, link.length));
+        }
+        for (const el of note.drawings || []) {
+            if (!el.link) continue;
+            const link = parseWikiLink(el.link);
+            if (isBroken(link)) add(link, el.type === 'text' ? el.content.replace(/\s+/g, ' ') : '(canvas)');
+        }
+        if (byKey.size > 0) groups.push({ noteId: note.id, title: note.title, folderId: note.folderId, links: [...byKey.values()] });
+    }
+    return groups;
+}
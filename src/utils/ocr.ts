@@ -1,27 +1,173 @@
 import Tesseract from 'tesseract.js';
+import type { Rectangle, Stroke } from './geometry';
+import { drawStroke } from './render';
 
-export async function recognizeTextFromCanvas(canvas: HTMLCanvasElement): Promise<string> {
-    // Create a temporary canvas to ensure white background
-    const tempCanvas = document.createElement('canvas');
-    tempCanvas.width = canvas.width;
-    tempCanvas.height = canvas.height;
-    const ctx = tempCanvas.getContext('2d');
-    if (!ctx) return '';
+export type OcrLanguage = 'jpn' | 'eng' | 'jpn+eng' | 'jpn_vert';
 
-    // Fill white
+export const OCR_LANGUAGES: { value: OcrLanguage, label: string }[] = [
+    { value: 'jpn', label: '日本語' },
+    { value: 'eng', label: 'English' },
+    { value: 'jpn+eng', label: '日本語 + English' },
+    { value: 'jpn_vert', label: '日本語（縦書き）' }
+];
+
+export const DEFAULT_OCR_LANGUAGE: OcrLanguage = 'jpn';
+
+export interface RecognizedLine {
+    text: string;
+    bbox: Tesseract.Bbox; // Pixels of the recognized image
+    confidence: number;
+}
+
+export interface OcrResult {
+    text: string;
+    lines: RecognizedLine[];
+}
+
+// An image of some ink and where it came from, so results can be placed back on the canvas
+export interface OcrImage {
+    canvas: HTMLCanvasElement;
+    bounds: Rectangle; // World area drawn
+    scale: number; // Image px per world unit
+}
+
+const OCR_PADDING = 20;
+const OCR_MAX_SIZE = 2000; // Longest side of the image handed to OCR
+
+// Black strokes on white, whatever the pen colours were (and without the page background): what OCR reads best
+export function renderStrokesForOcr(strokes: Stroke[], bounds: Rectangle): OcrImage {
+    const scale = Math.min(1, OCR_MAX_SIZE / Math.max(bounds.width, bounds.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.ceil(bounds.width * scale) + OCR_PADDING * 2;
+    canvas.height = Math.ceil(bounds.height * scale) + OCR_PADDING * 2;
+    const ctx = canvas.getContext('2d')!;
     ctx.fillStyle = '#ffffff';
-    ctx.fillRect(0, 0, tempCanvas.width, tempCanvas.height);
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.translate(OCR_PADDING, OCR_PADDING);
+    ctx.scale(scale, scale);
+    ctx.translate(-bounds.x, -bounds.y);
+    ctx.strokeStyle = '#000000';
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    for (const stroke of strokes) {
+        ctx.lineWidth = stroke.width;
+        drawStroke(ctx, stroke);
+    }
+    return { canvas, bounds, scale };
+}
+
+// Image pixels -> world coordinates
+export const imageToWorld = (image: OcrImage, bbox: Tesseract.Bbox): Rectangle => ({
+    x: image.bounds.x + (bbox.x0 - OCR_PADDING) / image.scale,
+    y: image.bounds.y + (bbox.y0 - OCR_PADDING) / image.scale,
+    width: (bbox.x1 - bbox.x0) / image.scale,
+    height: (bbox.y1 - bbox.y0) / image.scale
+});
+
+// Served by the app and precached by the service worker (see vite.config.ts), so OCR works offline
+const assetUrl = (path: string) => new URL(`tesseract/${path}`, document.baseURI).href;
 
-    // Draw original canvas over
-    ctx.drawImage(canvas, 0, 0);
+// Long-lived workers shared by every OCR request; each keeps its language loaded between jobs
+const POOL_SIZE = Math.min(2, Math.max(1, (navigator.hardwareConcurrency || 2) - 1));
 
-    const result = await Tesseract.recognize(
-        tempCanvas,
-        'jpn',
-        {
-            logger: m => console.log(m),
+type ProgressHandler = (progress: number, ready: boolean) => void;
+
+interface PooledWorker {
+    worker: Tesseract.Worker;
+    language: OcrLanguage;
+    busy: boolean;
+    onProgress?: ProgressHandler; // Of the job it is running
+}
+
+interface OcrJob {
+    image: HTMLCanvasElement;
+    language: OcrLanguage;
+    background: boolean;
+    onProgress?: ProgressHandler;
+    resolve: (result: OcrResult) => void;
+    reject: (error: unknown) => void;
+}
+
+const pool: PooledWorker[] = [];
+const queue: OcrJob[] = [];
+let starting = 0;
+
+async function startWorker(language: OcrLanguage) {
+    starting++;
+    try {
+        const slot = { language, busy: false } as PooledWorker;
+        slot.worker = await Tesseract.createWorker(language, Tesseract.OEM.LSTM_ONLY, {
+            workerPath: assetUrl('worker.min.js'),
+            corePath: assetUrl('core'),
+            langPath: assetUrl('lang'),
+            workerBlobURL: false,
+            logger: m => slot.onProgress?.(m.progress, m.status === 'recognizing text')
+        });
+        pool.push(slot);
+    } catch (e) {
+        // Nothing could run (e.g. the assets failed to load); fail the waiting jobs instead of leaving them queued
+        if (pool.length === 0) queue.splice(0).forEach(job => job.reject(e));
+    } finally {
+        starting--;
+        dispatch();
+    }
+}
+
+async function run(slot: PooledWorker, job: OcrJob) {
+    slot.busy = true;
+    slot.onProgress = job.onProgress;
+    try {
+        if (slot.language !== job.language) {
+            await slot.worker.reinitialize(job.language, Tesseract.OEM.LSTM_ONLY);
+            slot.language = job.language;
         }
-    );
+        // Vertical writing is read as one block of top-to-bottom columns
+        await slot.worker.setParameters({
+            tessedit_pageseg_mode: job.language === 'jpn_vert' ? Tesseract.PSM.SINGLE_BLOCK_VERT_TEXT : Tesseract.PSM.SINGLE_BLOCK
+        });
+        const { data } = await slot.worker.recognize(job.image, {}, { text: true, blocks: true });
+        const lines = (data.blocks || [])
+            .flatMap(block => block.paragraphs.flatMap(p => p.lines))
+            .map(line => ({ text: line.text.trim(), bbox: line.bbox, confidence: line.confidence }))
+            .filter(line => line.text);
+        job.resolve({ text: data.text.trim(), lines });
+    } catch (e) {
+        job.reject(e);
+        // The worker may be left half-initialized; replace it rather than reuse it
+        pool.splice(pool.indexOf(slot), 1);
+        slot.worker.terminate();
+    } finally {
+        slot.busy = false;
+        slot.onProgress = undefined;
+        dispatch();
+    }
+}
+
+function dispatch() {
+    for (const slot of pool) {
+        if (queue.length === 0) return;
+        if (!slot.busy) run(slot, queue.shift()!);
+    }
+    if (queue.length > 0 && pool.length + starting < POOL_SIZE) startWorker(queue[0].language);
+}
 
-    return result.data.text;
+/**
+ * Text and lines (with positions) in an image, queued for the worker pool.
+ * `onProgress` gets 0..1 while recognizing; `ready` is false while the engine and language data load.
+ * Background jobs (handwriting indexing) wait behind anything the user asked for.
+ */
+export function recognizeText(
+    image: HTMLCanvasElement,
+    language: OcrLanguage = DEFAULT_OCR_LANGUAGE,
+    onProgress?: ProgressHandler,
+    background: boolean = false
+): Promise<OcrResult> {
+    return new Promise((resolve, reject) => {
+        const job: OcrJob = { image, language, background, onProgress, resolve, reject };
+        const firstBackground = queue.findIndex(j => j.background);
+        if (background || firstBackground < 0) queue.push(job);
+        else queue.splice(firstBackground, 0, job);
+        onProgress?.(0, false);
+        dispatch();
+    });
 }
@@ -0,0 +1,49 @@
+import workerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+
+export interface RenderedPdfPage {
+    blob: Blob;
+    width: number; // Page size in PDF points (1/72 inch), i.e. the size to place it at
+    height: number;
+}
+
+/**
+ * Rasterize every page of a PDF to PNG.
+ * `resolution` is pixels per PDF point; 2 keeps handouts sharp when zoomed in.
+ */
+export async function renderPdfPages(file: Blob, resolution: number = 2, onProgress?: (done: number, total: number) => void): Promise<RenderedPdfPage[]> {
+    // pdf.js is large, so it is only loaded when a PDF is actually imported
+    const pdfjs = await import('pdfjs-dist');
+    pdfjs.GlobalWorkerOptions.workerSrc = workerUrl;
+
+    const pdf = await pdfjs.getDocument({ data: await file.arrayBuffer() }).promise;
+    const pages: RenderedPdfPage[] = [];
+
+    try {
+        for (let i = 1; i <= pdf.numPages; i++) {
+            const page = await pdf.getPage(i);
+            const base = page.getViewport({ scale: 1 });
+            const viewport = page.getViewport({ scale: resolution });
+
+            const canvas = document.createElement('canvas');
+            canvas.width = Math.ceil(viewport.width);
+            canvas.height = Math.ceil(viewport.height);
+            const ctx = canvas.getContext('2d');
+            if (!ctx) throw new Error('Canvas not available');
+
+            // Pages are often transparent; handouts should be white
+            ctx.fillStyle = '#ffffff';
+            ctx.fillRect(0, 0, canvas.width, canvas.height);
+            await page.render({ canvasContext: ctx, viewport }).promise;
+
+            const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+            if (!blob) throw new Error(`Page ${i} could not be rendered`);
+            pages.push({ blob, width: base.width, height: base.height });
+            page.cleanup();
+            onProgress?.(i, pdf.numPages);
+        }
+    } finally {
+        await pdf.destroy();
+    }
+
+    return pages;
+}
@@ -0,0 +1,113 @@
+import { getArrowHead, getShapePaths, getStrokeRadii, getStrokeOutline, hasVariableWidth, type Point, type Shape, type Stroke } from './geometry';
+
+// Linked elements are marked in this colour when viewing (and in exports)
+export const LINK_COLOR = '#0ea5e9';
+
+export function drawSmoothStroke(ctx: CanvasRenderingContext2D, points: Point[]) {
+    if (points.length < 2) return;
+    ctx.beginPath();
+    ctx.moveTo(points[0].x, points[0].y);
+    for (let i = 1; i < points.length - 1; i++) {
+        const p1 = points[i];
+        const p2 = points[i + 1];
+        const midX = (p1.x + p2.x) / 2;
+        const midY = (p1.y + p2.y) / 2;
+        ctx.quadraticCurveTo(p1.x, p1.y, midX, midY);
+    }
+    ctx.lineTo(points[points.length - 1].x, points[points.length - 1].y);
+    ctx.stroke();
+}
+
+// Smooth path through points without stroking it (shared by both stroke renderers)
+function traceSmoothPath(ctx: CanvasRenderingContext2D, points: Point[], moveToStart: boolean) {
+    if (moveToStart) ctx.moveTo(points[0].x, points[0].y);
+    else ctx.lineTo(points[0].x, points[0].y);
+    for (let i = 1; i < points.length - 1; i++) {
+        const midX = (points[i].x + points[i + 1].x) / 2;
+        const midY = (points[i].y + points[i + 1].y) / 2;
+        ctx.quadraticCurveTo(points[i].x, points[i].y, midX, midY);
+    }
+    ctx.lineTo(points[points.length - 1].x, points[points.length - 1].y);
+}
+
+// Filled outline whose width follows pressure/speed; uses ctx.fillStyle
+export function drawVariableStroke(ctx: CanvasRenderingContext2D, points: Point[], width: number, thinning: number = 0) {
+    if (points.length === 0) return;
+    const radii = getStrokeRadii(points, width, thinning);
+
+    if (points.length === 1) {
+        ctx.beginPath();
+        ctx.arc(points[0].x, points[0].y, radii[0], 0, Math.PI * 2);
+        ctx.fill();
+        return;
+    }
+
+    const { left, right } = getStrokeOutline(points, radii);
+    const first = points[0];
+    const last = points[points.length - 1];
+    const endAngle = Math.atan2(last.y - points[points.length - 2].y, last.x - points[points.length - 2].x);
+    const startAngle = Math.atan2(points[1].y - first.y, points[1].x - first.x);
+
+    ctx.beginPath();
+    traceSmoothPath(ctx, left, true);
+    // Round caps
+    ctx.arc(last.x, last.y, radii[radii.length - 1], endAngle + Math.PI / 2, endAngle - Math.PI / 2, true);
+    traceSmoothPath(ctx, right.slice().reverse(), false);
+    ctx.arc(first.x, first.y, radii[0], startAngle - Math.PI / 2, startAngle + Math.PI / 2, true);
+    ctx.closePath();
+    ctx.fill();
+}
+
+// Pressure/speed-aware strokes are filled outlines; older strokes keep the uniform line (ctx.lineWidth)
+export function drawStroke(ctx: CanvasRenderingContext2D, stroke: Pick<Stroke, 'points' | 'width' | 'thinning'>) {
+    if (hasVariableWidth(stroke)) {
+        const previousFill = ctx.fillStyle;
+        ctx.fillStyle = ctx.strokeStyle;
+        drawVariableStroke(ctx, stroke.points, stroke.width, stroke.thinning);
+        ctx.fillStyle = previousFill;
+    } else {
+        drawSmoothStroke(ctx, stroke.points);
+    }
+}
+
+// Builds the path of a shape; the caller decides how to stroke it
+export function traceShape(ctx: CanvasRenderingContext2D, shape: Shape) {
+    const p = shape.params;
+    ctx.beginPath();
+    switch (shape.type) {
+        case 'line':
+            ctx.moveTo(p.start.x, p.start.y);
+            ctx.lineTo(p.end.x, p.end.y);
+            break;
+        case 'arrow': {
+            const [a, b] = getArrowHead(p.start, p.end, p.headSize);
+            ctx.moveTo(p.start.x, p.start.y);
+            ctx.lineTo(p.end.x, p.end.y);
+            ctx.moveTo(a.x, a.y);
+            ctx.lineTo(p.end.x, p.end.y);
+            ctx.lineTo(b.x, b.y);
+            break;
+        }
+        case 'rect':
+            if (p.rotation) {
+                const [corners] = getShapePaths(shape);
+                corners.forEach((pt, i) => i === 0 ? ctx.moveTo(pt.x, pt.y) : ctx.lineTo(pt.x, pt.y));
+                ctx.closePath();
+            } else {
+                ctx.rect(p.x, p.y, p.width, p.height);
+            }
+            break;
+        case 'circle':
+            ctx.arc(p.x, p.y, p.radius, 0, Math.PI * 2);
+            break;
+        case 'ellipse':
+            ctx.ellipse(p.x, p.y, p.rx, p.ry, p.rotation || 0, 0, Math.PI * 2);
+            break;
+        case 'triangle':
+        case 'diamond':
+        case 'polygon':
+            p.points.forEach((pt: Point, i: number) => i === 0 ? ctx.moveTo(pt.x, pt.y) : ctx.lineTo(pt.x, pt.y));
+            ctx.closePath();
+            break;
+    }
+}
@@ -0,0 +1,122 @@
+import { db, type Note } from '../db/db';
+import { normalizeText, queryTerms, searchFields, type SearchFieldKind } from './searchIndex';
+
+export interface SnippetPart {
+    text: string;
+    hit: boolean;
+}
+
+export interface SearchMatch {
+    kind: SearchFieldKind;
+    elementIds?: string[]; // Canvas text or handwriting; the editor can jump there
+    parts: SnippetPart[];
+}
+
+export interface SearchResult {
+    note: Note;
+    score: number;
+    matches: SearchMatch[];
+}
+
+export interface SearchOptions {
+    folderIds?: Set<string | null>; // Only notes in these folders
+    limit?: number;
+}
+
+const SNIPPET_RADIUS = 30;
+const MAX_MATCHES = 3;
+
+// A character with the marks that follow it (half-width dakuten included); NFKC can merge these into one
+const CHARACTER = /.[\p{M}\uff9e\uff9f]*/gsu;
+
+/**
+ * normalizeText, plus where each of its code units came from: the range in `text` of the character
+ * it was normalized from. Normalizing can change the length (ｶﾞ → ガ, İ → i̇), so offsets don't carry over as they are.
+ */
+function normalizeWithOffsets(text: string) {
+    let normalized = '';
+    const starts: number[] = [];
+    const ends: number[] = [];
+    for (const match of text.matchAll(CHARACTER)) {
+        const piece = normalizeText(match[0]);
+        normalized += piece;
+        for (let i = 0; i < piece.length; i++) {
+            starts.push(match.index!);
+            ends.push(match.index! + match[0].length);
+        }
+    }
+    return { normalized, starts, ends };
+}
+
+// Text around the first hit, with every hit inside the window marked; `words` are normalized
+export function highlightSnippet(text: string, words: string[]): SnippetPart[] | null {
+    const { normalized, starts, ends } = normalizeWithOffsets(text);
+    const hits: [number, number][] = [];
+    for (const word of words) {
+        for (let i = normalized.indexOf(word); i >= 0; i = normalized.indexOf(word, i + word.length)) {
+            hits.push([starts[i], ends[i + word.length - 1]]);
+        }
+    }
+    if (hits.length === 0) return null;
+    hits.sort((a, b) => a[0] - b[0]);
+
+    const start = Math.max(0, hits[0][0] - SNIPPET_RADIUS);
+    const end = Math.min(text.length, hits[0][1] + SNIPPET_RADIUS * 2);
+    const parts: SnippetPart[] = [];
+    let pos = start;
+    for (const [from, to] of hits) {
+        if (from < pos || to > end) continue; // Overlapping or outside the window
+        if (from > pos) parts.push({ text: text.slice(pos, from), hit: false });
+        parts.push({ text: text.slice(from, to), hit: true });
+        pos = to;
+    }
+    if (pos < end) parts.push({ text: text.slice(pos, end), hit: false });
+
+    const clean = parts.map(p => ({ ...p, text: p.text.replace(/\s+/g, ' ') }));
+    if (start > 0) clean.unshift({ text: '…', hit: false });
+    if (end < text.length) clean.push({ text: '…', hit: false });
+    return clean;
+}
+
+// Notes containing every word of the query, best first
+export async function searchNotes(query: string, { folderIds, limit = 50 }: SearchOptions = {}): Promise<SearchResult[]> {
+    const words = [...new Set(normalizeText(query).split(/\s+/).filter(Boolean))];
+    if (words.length === 0) return [];
+
+    // Candidates from the index: a note needs every term of every word; its score adds up the term weights
+    let scores: Map<string, number> | null = null;
+    for (const term of new Set(words.flatMap(queryTerms))) {
+        const rows = await db.searchTerms.where('term').startsWith(term).toArray();
+        const next = new Map<string, number>();
+        for (const row of rows) {
+            if (scores && !scores.has(row.noteId)) continue;
+            next.set(row.noteId, (next.get(row.noteId) ?? scores?.get(row.noteId) ?? 0) + row.weight);
+        }
+        scores = next;
+        if (scores.size === 0) return [];
+    }
+    if (!scores) return [];
+
+    const notes = (await db.notes.bulkGet([...scores.keys()])).filter((n): n is Note => !!n);
+    const results: SearchResult[] = [];
+    for (const note of notes) {
+        if (folderIds && !folderIds.has(note.folderId)) continue;
+        const fields = searchFields(note);
+        // Pairs and prefixes can match notes that don't hold the words themselves
+        const normalized = fields.map(f => normalizeText(f.text));
+        if (!words.every(word => normalized.some(text => text.includes(word)))) continue;
+
+        const matches: SearchMatch[] = [];
+        for (const field of fields) {
+            if (matches.length >= MAX_MATCHES) break;
+            const parts = field.kind === 'title' ? null : highlightSnippet(field.text, words);
+            if (parts) matches.push({ kind: field.kind, elementIds: field.elementIds, parts });
+        }
+        const titleBonus = normalizeText(note.title || '').includes(words.join(' ')) ? 50 : 0;
+        results.push({ note, score: scores.get(note.id)! + titleBonus, matches });
+    }
+
+    return results
+        .sort((a, b) => b.score - a.score || b.note.updatedAt - a.note.updatedAt)
+        .slice(0, limit);
+}
@@ -0,0 +1,82 @@
+import type { Note } from '../db/db';
+import type { DrawingElement } from './geometry';
+
+// Inverted index for full-text search; pure so the schema upgrade and the note hooks share it.
+// Covers titles, text, canvas text and recognized handwriting.
+// Latin words are indexed whole and matched by prefix. CJK text has no spaces, so it is indexed
+// as overlapping character pairs (plus the last character of each run, for one-character queries).
+
+export interface SearchTerm {
+    noteId: string;
+    term: string;
+    weight: number; // Occurrences, weighted by where they occur
+}
+
+export type SearchFieldKind = 'title' | 'content' | 'text' | 'ink';
+
+export interface SearchField {
+    kind: SearchFieldKind;
+    text: string;
+    elementIds?: string[]; // Canvas text element, or the strokes of recognized handwriting
+}
+
+const FIELD_WEIGHTS: Record<SearchFieldKind, number> = { title: 8, text: 2, content: 1, ink: 1 };
+
+const WORD = /[\p{L}\p{N}]+/gu;
+const CJK_RUN = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff\uac00-\ud7af]+/g;
+
+// Case- and width-insensitive form that indexing and matching both use
+export const normalizeText = (text: string): string => text.normalize('NFKC').toLowerCase();
+
+function cjkTerms(run: string, withTail: boolean): string[] {
+    const chars = [...run];
+    if (chars.length === 1) return chars;
+    const pairs = chars.slice(1).map((ch, i) => chars[i] + ch);
+    return withTail ? [...pairs, chars[chars.length - 1]] : pairs;
+}
+
+function terms(text: string, withTail: boolean): string[] {
+    const result: string[] = [];
+    for (const [word] of normalizeText(text).matchAll(WORD)) {
+        let last = 0;
+        for (const run of word.matchAll(CJK_RUN)) {
+            if (run.index! > last) result.push(word.slice(last, run.index));
+            result.push(...cjkTerms(run[0], withTail));
+            last = run.index! + run[0].length;
+        }
+        if (last < word.length) result.push(word.slice(last));
+    }
+    return result;
+}
+
+// Terms stored for a piece of text
+export const indexTerms = (text: string): string[] => terms(text, true);
+
+// Terms looked up (by prefix) for a query word; a note matches when it has all of them
+export const queryTerms = (word: string): string[] => [...new Set(terms(word, false))];
+
+// Everything about a note that search looks at
+export function searchFields(note: Pick<Note, 'title' | 'content' | 'drawings' | 'ink'>): SearchField[] {
+    const fields: SearchField[] = [
+        { kind: 'title', text: note.title || '' },
+        { kind: 'content', text: note.content || '' }
+    ];
+    const drawings: DrawingElement[] = note.drawings || [];
+    for (const el of drawings) {
+        if (el.type === 'text' && el.content) fields.push({ kind: 'text', text: el.content, elementIds: [el.id] });
+    }
+    for (const ink of note.ink || []) {
+        if (ink.text) fields.push({ kind: 'ink', text: ink.text, elementIds: ink.strokeIds });
+    }
+    return fields.filter(f => f.text);
+}
+
+export function noteTerms(note: Note): SearchTerm[] {
+    const weights = new Map<string, number>();
+    for (const field of searchFields(note)) {
+        for (const term of indexTerms(field.text)) {
+            weights.set(term, (weights.get(term) || 0) + FIELD_WEIGHTS[field.kind]);
+        }
+    }
+    return [...weights].map(([term, weight]) => ({ noteId: note.id, term, weight }));
+}
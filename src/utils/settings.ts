@@ -0,0 +1,20 @@
+// Small UI preferences (pens, toggles) that must survive reloads.
+// Kept in localStorage rather than Dexie so they are available synchronously on first render.
+const PREFIX = 'app_memo.';
+
+export function loadSetting<T>(key: string, fallback: T): T {
+    try {
+        const raw = localStorage.getItem(PREFIX + key);
+        return raw === null ? fallback : JSON.parse(raw) as T;
+    } catch {
+        return fallback;
+    }
+}
+
+export function saveSetting<T>(key: string, value: T) {
+    try {
+        localStorage.setItem(PREFIX + key, JSON.stringify(value));
+    } catch (e) {
+        console.warn(`Failed to save setting "${key}":`, e);
+    }
+}
@@ -0,0 +1,112 @@
+import type { Rectangle, TextElement } from './geometry';
+
+export const TEXT_LINE_HEIGHT = 1.25; // Multiple of the font size
+
+export const TEXT_FONTS: { label: string, value: string }[] = [
+    { label: 'Sans', value: 'sans-serif' },
+    { label: 'Serif', value: 'serif' },
+    { label: 'Mono', value: 'monospace' },
+    { label: 'Hand', value: '"Comic Sans MS", "Segoe Print", cursive' }
+];
+
+type TextStyleFields = Pick<TextElement, 'fontSize' | 'fontFamily' | 'bold' | 'italic'>;
+
+export function textFont(el: TextStyleFields): string {
+    return `${el.italic ? 'italic ' : ''}${el.bold ? 'bold ' : ''}${el.fontSize}px ${el.fontFamily || 'sans-serif'}`;
+}
+
+export interface TextLayout {
+    lines: { text: string, width: number }[];
+    width: number; // Box width: the wrap width if set, else the widest line
+    height: number;
+    lineHeight: number;
+}
+
+let measureCtx: CanvasRenderingContext2D | null = null;
+
+// Falls back to a rough estimate where there's no canvas (e.g. outside the browser)
+const measurer = (font: string, fontSize: number): (text: string) => number => {
+    if (!measureCtx && typeof document !== 'undefined') {
+        measureCtx = document.createElement('canvas').getContext('2d');
+    }
+    if (!measureCtx) return text => text.length * fontSize * 0.6;
+    const ctx = measureCtx;
+    ctx.font = font;
+    return text => ctx.measureText(text).width;
+};
+
+// CJK characters may break anywhere; other text breaks between words
+const TOKEN_PATTERN = /\s+|[\u3000-\u30ff\u3400-\u9fff\uf900-\ufaff\uff00-\uffef]|[^\s\u3000-\u30ff\u3400-\u9fff\uf900-\ufaff\uff00-\uffef]+/g;
+
+function wrapParagraph(paragraph: string, maxWidth: number, measure: (text: string) => number): string[] {
+    const lines: string[] = [];
+    let line = '';
+    for (const token of paragraph.match(TOKEN_PATTERN) || []) {
+        if (measure(line + token) <= maxWidth || line === '') {
+            line += token;
+        } else if (/^\s+$/.test(token)) {
+            // Spaces at a break are dropped
+            lines.push(line);
+            line = '';
+            continue;
+        } else {
+            lines.push(line.trimEnd());
+            line = token;
+        }
+        // A single word wider than the box is split by character
+        while (measure(line) > maxWidth && line.length > 1) {
+            let cut = line.length - 1;
+            while (cut > 1 && measure(line.slice(0, cut)) > maxWidth) cut--;
+            lines.push(line.slice(0, cut));
+            line = line.slice(cut);
+        }
+    }
+    lines.push(line.trimEnd());
+    return lines;
+}
+
+// Layouts only depend on the element, and elements are never mutated, so they are cached per object
+const layoutCache = new WeakMap<TextElement, TextLayout>();
+
+export function layoutText(el: TextElement): TextLayout {
+    const cached = layoutCache.get(el);
+    if (cached) return cached;
+
+    const measure = measurer(textFont(el), el.fontSize);
+    const texts = el.content.split('\n').flatMap(paragraph =>
+        el.width ? wrapParagraph(paragraph, el.width, measure) : [paragraph]
+    );
+    const lines = texts.map(text => ({ text, width: measure(text) }));
+    const lineHeight = el.fontSize * TEXT_LINE_HEIGHT;
+    const layout: TextLayout = {
+        lines,
+        width: el.width ?? Math.max(0, ...lines.map(l => l.width)),
+        height: lines.length * lineHeight,
+        lineHeight
+    };
+    layoutCache.set(el, layout);
+    return layout;
+}
+
+/**
+ * The unrotated text box. (x, y) is the first line's baseline, so the box starts one font size above it.
+ * Rotation, if any, is around (x, y).
+ */
+export function getTextBox(el: TextElement): Rectangle {
+    const { width, height } = layoutText(el);
+    return { x: el.x, y: el.y - el.fontSize, width, height };
+}
+
+// Draws in the text's own frame: the caller translates to (x, y) and applies rotation
+export function drawTextLines(ctx: CanvasRenderingContext2D, el: TextElement, underline: boolean = !!el.underline) {
+    const layout = layoutText(el);
+    ctx.font = textFont(el);
+    layout.lines.forEach((line, i) => {
+        const offset = el.align === 'center' ? (layout.width - line.width) / 2 : el.align === 'right' ? layout.width - line.width : 0;
+        const baseline = i * layout.lineHeight;
+        ctx.fillText(line.text, offset, baseline);
+        if (underline && line.width > 0) {
+            ctx.fillRect(offset, baseline + el.fontSize * 0.12, line.width, Math.max(1, el.fontSize / 16));
+        }
+    });
+}
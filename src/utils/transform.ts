@@ -0,0 +1,133 @@
+import { rotatePoint, type DrawingElement, type Point } from './geometry';
+
+// Geometry is baked into the element wherever possible; only rects, ellipses, text and images keep a `rotation`.
+
+const movePoint = <T extends Point>(p: T, dx: number, dy: number): T => ({ ...p, x: p.x + dx, y: p.y + dy });
+
+const scalePoint = <T extends Point>(p: T, origin: Point, sx: number, sy: number): T =>
+    ({ ...p, x: origin.x + (p.x - origin.x) * sx, y: origin.y + (p.y - origin.y) * sy });
+
+export function translateElement(el: DrawingElement, dx: number, dy: number): DrawingElement {
+    if (el.type === 'stroke') {
+        return { ...el, points: el.points.map(p => movePoint(p, dx, dy)) };
+    } else if (el.type === 'line' || el.type === 'arrow') {
+        const { start, end } = el.params;
+        return { ...el, params: { ...el.params, start: movePoint(start, dx, dy), end: movePoint(end, dx, dy) } };
+    } else if (el.type === 'circle' || el.type === 'rect' || el.type === 'ellipse') {
+        const { x, y } = el.params;
+        return { ...el, params: { ...el.params, x: x + dx, y: y + dy } };
+    } else if (el.type === 'triangle' || el.type === 'diamond' || el.type === 'polygon') {
+        return { ...el, params: { ...el.params, points: el.params.points.map((p: Point) => movePoint(p, dx, dy)) } };
+    } else if (el.type === 'text' || el.type === 'image') {
+        return { ...el, x: el.x + dx, y: el.y + dy };
+    }
+    return el;
+}
+
+/**
+ * Scale around `origin` (negative factors mirror).
+ * Line widths and font sizes follow the geometric mean of the factors.
+ */
+export function scaleElement(el: DrawingElement, origin: Point, sx: number, sy: number): DrawingElement {
+    const k = Math.sqrt(Math.abs(sx * sy));
+
+    if (el.type === 'stroke') {
+        return { ...el, width: el.width * k, points: el.points.map(p => scalePoint(p, origin, sx, sy)) };
+    }
+    if (el.type === 'text') {
+        const anchor = scalePoint(el, origin, sx, sy);
+        // A wrapping box follows the horizontal stretch, so the text re-wraps instead of distorting
+        const width = el.width !== undefined ? el.width * Math.abs(el.rotation ? k : sx) : undefined;
+        return { ...el, x: anchor.x, y: anchor.y, fontSize: Math.max(el.fontSize * k, 4), ...(width !== undefined ? { width } : {}) };
+    }
+    if (el.type === 'image') {
+        // Rotated images keep their proportions (they can't be sheared)
+        const w = el.width * Math.abs(el.rotation ? k : sx);
+        const h = el.height * Math.abs(el.rotation ? k : sy);
+        const center = scalePoint({ x: el.x + el.width / 2, y: el.y + el.height / 2 }, origin, sx, sy);
+        return { ...el, x: center.x - w / 2, y: center.y - h / 2, width: w, height: h };
+    }
+
+    const p = el.params;
+    const width = el.width * k;
+    switch (el.type) {
+        case 'line':
+            return { ...el, width, params: { ...p, start: scalePoint(p.start, origin, sx, sy), end: scalePoint(p.end, origin, sx, sy) } };
+        case 'arrow':
+            return { ...el, width, params: { ...p, start: scalePoint(p.start, origin, sx, sy), end: scalePoint(p.end, origin, sx, sy), headSize: p.headSize * k } };
+        case 'triangle':
+        case 'diamond':
+        case 'polygon':
+            return { ...el, width, params: { ...p, points: p.points.map((pt: Point) => scalePoint(pt, origin, sx, sy)) } };
+        case 'rect': {
+            const rotation = p.rotation || 0;
+            const center = scalePoint({ x: p.x + p.width / 2, y: p.y + p.height / 2 }, origin, sx, sy);
+            if (rotation && Math.abs(sx) !== Math.abs(sy)) {
+                // A rotated rect stretched along the screen axes is no longer a rect
+                const corners = [
+                    { x: p.x, y: p.y }, { x: p.x + p.width, y: p.y },
+                    { x: p.x + p.width, y: p.y + p.height }, { x: p.x, y: p.y + p.height }
+                ].map(c => scalePoint(rotatePoint(c, { x: p.x + p.width / 2, y: p.y + p.height / 2 }, rotation), origin, sx, sy));
+                return { ...el, type: 'polygon', width, params: { points: corners } };
+            }
+            const w = p.width * Math.abs(rotation ? k : sx);
+            const h = p.height * Math.abs(rotation ? k : sy);
+            return { ...el, width, params: { ...p, x: center.x - w / 2, y: center.y - h / 2, width: w, height: h } };
+        }
+        case 'circle': {
+            const center = scalePoint(p, origin, sx, sy);
+            if (Math.abs(sx) === Math.abs(sy)) {
+                return { ...el, width, params: { ...p, x: center.x, y: center.y, radius: p.radius * Math.abs(sx) } };
+            }
+            return { ...el, type: 'ellipse', width, params: { x: center.x, y: center.y, rx: p.radius * Math.abs(sx), ry: p.radius * Math.abs(sy) } };
+        }
+        case 'ellipse': {
+            const center = scalePoint(p, origin, sx, sy);
+            const rotation = p.rotation || 0;
+            const cos = Math.cos(rotation), sin = Math.sin(rotation);
+            // Exact when unrotated; for rotated ellipses the axes are stretched by their projection
+            const rx = p.rx * Math.hypot(sx * cos, sy * sin);
+            const ry = p.ry * Math.hypot(sx * sin, sy * cos);
+            return { ...el, width, params: { ...p, x: center.x, y: center.y, rx, ry } };
+        }
+    }
+    return el;
+}
+
+export function rotateElement(el: DrawingElement, center: Point, angle: number): DrawingElement {
+    if (el.type === 'stroke') {
+        return { ...el, points: el.points.map(p => rotatePoint(p, center, angle)) };
+    }
+    if (el.type === 'text') {
+        const anchor = rotatePoint(el, center, angle);
+        return { ...el, x: anchor.x, y: anchor.y, rotation: (el.rotation || 0) + angle };
+    }
+    if (el.type === 'image') {
+        const c = rotatePoint({ x: el.x + el.width / 2, y: el.y + el.height / 2 }, center, angle);
+        return { ...el, x: c.x - el.width / 2, y: c.y - el.height / 2, rotation: (el.rotation || 0) + angle };
+    }
+
+    const p = el.params;
+    switch (el.type) {
+        case 'line':
+        case 'arrow':
+            return { ...el, params: { ...p, start: rotatePoint(p.start, center, angle), end: rotatePoint(p.end, center, angle) } };
+        case 'triangle':
+        case 'diamond':
+        case 'polygon':
+            return { ...el, params: { ...p, points: p.points.map((pt: Point) => rotatePoint(pt, center, angle)) } };
+        case 'rect': {
+            const c = rotatePoint({ x: p.x + p.width / 2, y: p.y + p.height / 2 }, center, angle);
+            return { ...el, params: { ...p, x: c.x - p.width / 2, y: c.y - p.height / 2, rotation: (p.rotation || 0) + angle } };
+        }
+        case 'circle': {
+            const c = rotatePoint(p, center, angle);
+            return { ...el, params: { ...p, x: c.x, y: c.y } };
+        }
+        case 'ellipse': {
+            const c = rotatePoint(p, center, angle);
+            return { ...el, params: { ...p, x: c.x, y: c.y, rotation: (p.rotation || 0) + angle } };
+        }
+    }
+    return el;
+}
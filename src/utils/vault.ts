@@ -0,0 +1,312 @@
+import { strToU8, strFromU8, unzipSync, zipSync, type Zippable } from 'fflate';
+import { v4 as uuidv4 } from 'uuid';
+import { db, type Folder, type Note } from '../db/db';
+import { BACKUP_FORMAT, BACKUP_VERSION, dateStamp, type Backup, type BackupImage } from './backup';
+import { noteToSvg, safeFileName } from './exportNote';
+import { blobToDataUrl } from './imageStore';
+import type { Layer } from './layers';
+import { buildTitleIndex, mapWikiLinks } from './noteLinks';
+
+/**
+ * Markdown vaults (Obsidian style), as zip files.
+ *
+ * Folders become directories and notes `<title>.md`, with front-matter for what Markdown can't hold
+ * (id, timestamps, favorite). Links between exported notes are written as [[file name]] so other tools
+ * resolve them, and read back into id links. A note's drawing goes to `_attachments/<id>.svg`
+ * (embedded at the end of the note) next to `_attachments/<id>.json`, which keeps it editable on import.
+ */
+
+export const ATTACHMENTS_DIR = '_attachments';
+
+// Sidecar of a note's drawing, with the images it places
+interface DrawingFile {
+    drawings: any[];
+    layers?: Layer[];
+    images: { id: string, file: string, width: number, height: number }[];
+}
+
+const FRONT_MATTER = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?/;
+const OWN_KEYS = new Set(['id', 'title', 'created', 'updated', 'favorite']);
+
+const embedLine = (noteId: string) => `![[${ATTACHMENTS_DIR}/${noteId}.svg]]`;
+
+const IMAGE_EXTENSIONS: Record<string, string> = { 'image/png': 'png', 'image/jpeg': 'jpg', 'image/gif': 'gif', 'image/webp': 'webp', 'image/svg+xml': 'svg' };
+
+// Front-matter as key/value pairs, plus the lines we don't own (tags, aliases, ...) so they survive a round trip
+function splitFrontMatter(text: string): { fields: Map<string, string>, otherLines: string[], body: string } {
+    const match = FRONT_MATTER.exec(text);
+    const fields = new Map<string, string>();
+    const otherLines: string[] = [];
+    if (!match) return { fields, otherLines, body: text };
+    let ownValue = false; // Indented lines belong to the key above them
+    for (const line of match[1].split(/\r?\n/)) {
+        const pair = /^([A-Za-z_][\w-]*):\s*(.*)$/.exec(line);
+        if (pair && OWN_KEYS.has(pair[1])) {
+            fields.set(pair[1], pair[2].trim());
+            ownValue = true;
+        } else if (!pair && ownValue && /^\s/.test(line)) {
+            continue;
+        } else {
+            otherLines.push(line);
+            ownValue = false;
+        }
+    }
+    return { fields, otherLines, body: text.slice(match[0].length) };
+}
+
+// Plain and double-quoted YAML scalars; the quoted form is what we write
+function yamlString(value: string): string {
+    if (value.startsWith('"')) {
+        try {
+            return JSON.parse(value);
+        } catch {
+            return value;
+        }
+    }
+    return value.startsWith("'") && value.endsWith("'") ? value.slice(1, -1).replace(/''/g, "'") : value;
+}
+
+const yamlDate = (value: string | undefined) => {
+    const time = value ? Date.parse(yamlString(value)) : NaN;
+    return Number.isNaN(time) ? undefined : time;
+};
+
+// Names unique among siblings: "Name", "Name (2)", ...
+function uniqueName(name: string, taken: Set<string>): string {
+    let result = name;
+    for (let i = 2; taken.has(result.toLowerCase()); i++) result = `${name} (${i})`;
+    taken.add(result.toLowerCase());
+    return result;
+}
+
+// ---- Export ----
+
+export const vaultFileName = () => `app_memo-vault-${dateStamp()}.zip`;
+
+/**
+ * Zip of the folder `rootId` (everything when null) with its subfolders and notes.
+ */
+export async function exportVault(rootId: string | null = null): Promise<Blob> {
+    const [folders, allNotes] = await Promise.all([db.folders.toArray(), db.notes.toArray()]);
+
+    // Directory of every exported folder, relative to the vault root
+    const dirs = new Map<string | null, string>([[rootId, '']]);
+    const takenNames = new Map<string, Set<string>>(); // Per directory
+    const taken = (dir: string) => {
+        if (!takenNames.has(dir)) takenNames.set(dir, new Set([ATTACHMENTS_DIR.toLowerCase()]));
+        return takenNames.get(dir)!;
+    };
+    const pending = [rootId];
+    while (pending.length > 0) {
+        const parentId = pending.shift()!;
+        const parentDir = dirs.get(parentId)!;
+        for (const folder of folders.filter(f => f.parentId === parentId && !dirs.has(f.id))) {
+            dirs.set(folder.id, parentDir + uniqueName(safeFileName(folder.title), taken(parentDir)) + '/');
+            pending.push(folder.id);
+        }
+    }
+
+    const notes = allNotes.filter(n => dirs.has(n.folderId));
+    const paths = new Map<string, string>(); // Note id -> path without .md
+    for (const note of notes) {
+        const dir = dirs.get(note.folderId)!;
+        paths.set(note.id, dir + uniqueName(safeFileName(note.title || '無題のメモ'), taken(dir)));
+    }
+    // Links use the bare file name where it is unique in the vault, the path otherwise
+    const baseNameCount = new Map<string, number>();
+    for (const path of paths.values()) {
+        const base = path.slice(path.lastIndexOf('/') + 1).toLowerCase();
+        baseNameCount.set(base, (baseNameCount.get(base) || 0) + 1);
+    }
+    const linkName = (noteId: string) => {
+        const path = paths.get(noteId)!;
+        const base = path.slice(path.lastIndexOf('/') + 1);
+        return baseNameCount.get(base.toLowerCase())! > 1 ? path : base;
+    };
+    const titleIndex = buildTitleIndex(allNotes);
+    const titles = new Map(allNotes.map(n => [n.id, n.title]));
+
+    const files: Zippable = {};
+    for (const note of notes) {
+        const content = mapWikiLinks(note.content || '', link => {
+            const noteId = link.noteId ?? titleIndex.get(link.target);
+            if (!noteId || !paths.has(noteId)) return null;
+            const target = linkName(noteId);
+            const display = link.display ?? titles.get(noteId);
+            return { target, heading: link.heading, display: display && display !== target ? display : undefined };
+        });
+
+        const { otherLines, body } = splitFrontMatter(content);
+        const frontMatter = [
+            `id: ${note.id}`,
+            `title: ${JSON.stringify(note.title || '')}`,
+            `created: ${new Date(note.createdAt).toISOString()}`,
+            `updated: ${new Date(note.updatedAt).toISOString()}`,
+            ...(note.isFavorite ? ['favorite: true'] : []),
+            ...otherLines
+        ];
+        let markdown = `---\n${frontMatter.join('\n')}\n---\n${body}`;
+
+        if (note.drawings?.length) {
+            const drawing: DrawingFile = { drawings: note.drawings, layers: note.layers, images: [] };
+            for (const imageId of new Set(note.drawings.filter(el => el.type === 'image').map(el => el.imageId as string))) {
+                const image = await db.images.get(imageId);
+                if (!image) continue;
+                const file = `${ATTACHMENTS_DIR}/images/${imageId}.${IMAGE_EXTENSIONS[image.blob.type] || 'bin'}`;
+                files[file] = new Uint8Array(await image.blob.arrayBuffer());
+                drawing.images.push({ id: imageId, file, width: image.width, height: image.height });
+            }
+            files[`${ATTACHMENTS_DIR}/${note.id}.json`] = strToU8(JSON.stringify(drawing));
+            try {
+                files[`${ATTACHMENTS_DIR}/${note.id}.svg`] = strToU8(await noteToSvg(note));
+                markdown = `${markdown.replace(/\s*$/, '')}\n\n${embedLine(note.id)}\n`;
+            } catch {
+                // Nothing visible to draw (e.g. every layer hidden); the sidecar still keeps the drawing
+            }
+        }
+        files[`${paths.get(note.id)}.md`] = strToU8(markdown);
+    }
+    // Empty folders still need their directory
+    for (const dir of dirs.values()) {
+        if (dir && !Object.keys(files).some(path => path.startsWith(dir))) files[dir.slice(0, -1)] = {};
+    }
+    return new Blob([zipSync(files) as BlobPart], { type: 'application/zip' });
+}
+
+// ---- Import ----
+
+export interface VaultFile {
+    path: string; // Relative to the vault root, '/'-separated
+    data: Uint8Array;
+}
+
+// Directories come through as entries ending in '/', so empty folders survive too
+export function readVaultZip(zip: Uint8Array): VaultFile[] {
+    return Object.entries(unzipSync(zip)).map(([path, data]) => ({ path, data }));
+}
+
+// Files picked as a directory carry the picked directory as their first path segment
+export async function readVaultDirectory(files: File[]): Promise<VaultFile[]> {
+    return Promise.all(files.map(async file => ({
+        path: (file.webkitRelativePath || file.name).split('/').slice(1).join('/') || file.name,
+        data: new Uint8Array(await file.arrayBuffer())
+    })));
+}
+
+/**
+ * A vault as a backup, ready for `restoreBackup` (which deals with ids that already exist).
+ * Directories map onto existing folders with the same path from the top level, or become new folders.
+ * Notes keep the id in their front-matter when they have one; [[links]] that name a note of the vault
+ * (by file name or path) become id links, the rest are left as written.
+ */
+export async function vaultToBackup(files: VaultFile[]): Promise<Backup> {
+    // Hidden directories (.obsidian, .trash) are tool settings, not notes
+    const visible = files.filter(f => !f.path.split('/').some(part => part.startsWith('.')));
+    const byPath = new Map(visible.map(f => [f.path, f.data]));
+    const markdown = visible.filter(f => /\.md$/i.test(f.path) && !f.path.startsWith(`${ATTACHMENTS_DIR}/`));
+    if (markdown.length === 0) throw new Error('No Markdown notes found');
+
+    // Folders along every note's path, reusing the ones that already exist
+    const existingFolders = await db.folders.toArray();
+    const folderIds = new Map<string, string | null>([['', null]]);
+    const folders: Folder[] = [];
+    const folderFor = (dir: string): string | null => {
+        if (folderIds.has(dir)) return folderIds.get(dir)!;
+        const slash = dir.lastIndexOf('/');
+        const parentId = folderFor(slash >= 0 ? dir.slice(0, slash) : '');
+        const title = dir.slice(slash + 1);
+        const existing = existingFolders.find(f => f.parentId === parentId && f.title === title);
+        let id = existing?.id;
+        if (!id) {
+            id = uuidv4();
+            folders.push({ id, title, parentId, createdAt: Date.now(), updatedAt: Date.now() });
+        }
+        folderIds.set(dir, id);
+        return id;
+    };
+
+    for (const file of visible) {
+        if (file.path.endsWith('/') && !file.path.startsWith(`${ATTACHMENTS_DIR}/`)) folderFor(file.path.slice(0, -1));
+    }
+
+    const now = Date.now();
+    const notes: Note[] = [];
+    const drawingFiles = new Map<string, DrawingFile>(); // By note id
+    const usedIds = new Set<string>();
+    for (const file of markdown) {
+        const text = strFromU8(file.data).replace(/^\uFEFF/, '');
+        const { fields, otherLines, body } = splitFrontMatter(text);
+        const path = file.path.replace(/\.md$/i, '');
+        const slash = path.lastIndexOf('/');
+        const fileTitle = path.slice(slash + 1);
+        // Attachments are named after the id in the file, even if the note ends up with another one
+        const sourceId = fields.has('id') ? yamlString(fields.get('id')!) : '';
+        const id = sourceId && !usedIds.has(sourceId) ? sourceId : uuidv4();
+        usedIds.add(id);
+
+        const content = (otherLines.length > 0 ? `---\n${otherLines.join('\n')}\n---\n` : '')
+            + (sourceId ? body.split(embedLine(sourceId)).join('') : body).replace(/\s+$/, '');
+        const note: Note = {
+            id,
+            folderId: folderFor(slash >= 0 ? path.slice(0, slash) : ''),
+            title: fields.has('title') ? yamlString(fields.get('title')!) : fileTitle,
+            content,
+            createdAt: yamlDate(fields.get('created')) ?? now,
+            updatedAt: yamlDate(fields.get('updated')) ?? now
+        };
+        if (fields.get('favorite') === 'true') note.isFavorite = true;
+
+        const sidecar = sourceId && byPath.get(`${ATTACHMENTS_DIR}/${sourceId}.json`);
+        if (sidecar) {
+            try {
+                const drawing = JSON.parse(strFromU8(sidecar)) as DrawingFile;
+                if (Array.isArray(drawing.drawings)) note.drawings = drawing.drawings;
+                if (Array.isArray(drawing.layers)) note.layers = drawing.layers;
+                drawingFiles.set(id, drawing);
+            } catch {
+                console.warn(`Drawing of "${file.path}" could not be read`);
+            }
+        }
+        notes.push(note);
+    }
+
+    // Link targets: path and bare file name (first one wins, as title links do)
+    const targets = new Map<string, string>();
+    markdown.forEach((file, i) => {
+        const path = file.path.replace(/\.md$/i, '').toLowerCase();
+        targets.set(path, notes[i].id);
+        const base = path.slice(path.lastIndexOf('/') + 1);
+        if (!targets.has(base)) targets.set(base, notes[i].id);
+    });
+    const titles = new Map(notes.map(n => [n.id, n.title]));
+    for (const note of notes) {
+        note.content = mapWikiLinks(note.content, link => {
+            if (link.noteId) return null;
+            const noteId = targets.get(link.target.replace(/\.md$/i, '').replace(/^\//, '').toLowerCase());
+            if (!noteId) return null;
+            return { ...link, target: '', noteId, display: link.display ?? titles.get(noteId) };
+        });
+    }
+
+    // Images placed by the drawings, from the files the sidecars point at
+    const images: BackupImage[] = [];
+    const seen = new Set<string>();
+    for (const drawing of drawingFiles.values()) {
+        for (const entry of Array.isArray(drawing.images) ? drawing.images : []) {
+            const data = byPath.get(entry?.file);
+            if (!data || seen.has(entry.id)) continue;
+            seen.add(entry.id);
+            const extension = entry.file.slice(entry.file.lastIndexOf('.') + 1);
+            const type = Object.keys(IMAGE_EXTENSIONS).find(t => IMAGE_EXTENSIONS[t] === extension) || 'application/octet-stream';
+            images.push({
+                id: entry.id,
+                data: await blobToDataUrl(new Blob([data as BlobPart], { type })),
+                width: entry.width,
+                height: entry.height,
+                createdAt: now
+            });
+        }
+    }
+
+    return { format: BACKUP_FORMAT, version: BACKUP_VERSION, exportedAt: now, folders, notes, images };
+}
@@ -0,0 +1,59 @@
+// [[Title]], [[Title|display text]], [[Title#heading]] and [[Title#heading|display text]].
+// Links made by the app point at a note id instead, with its title as display text: [[note:<id>|Title]].
+// Bare titles still work and resolve by title.
+
+export interface WikiLink {
+    target: string; // As written: a note title, or note:<id>
+    noteId?: string; // Set when the target is an id
+    heading?: string;
+    display?: string;
+}
+
+export const NOTE_ID_PREFIX = 'note:';
+
+// Matches one link; the capture is everything between the brackets
+export const WIKI_LINK_PATTERN = /\[\[([^[\]\n]+?)\]\]/g;
+
+export function parseWikiLink(inner: string): WikiLink {
+    const pipe = inner.indexOf('|');
+    const ref = pipe >= 0 ? inner.slice(0, pipe) : inner;
+    const display = pipe >= 0 ? inner.slice(pipe + 1).trim() : '';
+    const hash = ref.indexOf('#');
+    const target = (hash >= 0 ? ref.slice(0, hash) : ref).trim();
+    const heading = hash >= 0 ? ref.slice(hash + 1).trim() : '';
+    return {
+        target,
+        ...(target.startsWith(NOTE_ID_PREFIX) ? { noteId: target.slice(NOTE_ID_PREFIX.length) } : {}),
+        ...(heading ? { heading } : {}),
+        ...(display ? { display } : {})
+    };
+}
+
+// Text between the brackets for a link
+export function formatWikiLink(link: WikiLink): string {
+    const target = link.noteId ? NOTE_ID_PREFIX + link.noteId : link.target;
+    return target + (link.heading ? `#${link.heading}` : '') + (link.display ? `|${link.display}` : '');
+}
+
+// Id link to a note, showing its title
+export const noteLink = (noteId: string, title: string): string => formatWikiLink({ target: '', noteId, display: title });
+
+// What a link shows in place of its brackets
+export function wikiLinkLabel(link: WikiLink): string {
+    if (link.display) return link.display;
+    return link.heading ? `${link.target} > ${link.heading}` : link.target;
+}
+
+export interface WikiLinkMatch extends WikiLink {
+    raw: string; // Text between the brackets, as written
+    index: number; // Offset of the opening [[
+    length: number; // Including brackets
+}
+
+export function findWikiLinks(text: string): WikiLinkMatch[] {
+    const result: WikiLinkMatch[] = [];
+    for (const match of text.matchAll(WIKI_LINK_PATTERN)) {
+        result.push({ ...parseWikiLink(match[1]), raw: match[1], index: match.index!, length: match[0].length });
+    }
+    return result;
+}
@@ -1,10 +1,53 @@
-import { defineConfig } from 'vite'
+import { defineConfig, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 import { VitePWA, type VitePWAOptions } from 'vite-plugin-pwa'
+import { readFileSync } from 'node:fs'
+import { fileURLToPath } from 'node:url'
+
+// OCR runs offline: Tesseract's worker, WASM core and language data are served by the app
+// (under tesseract/, see src/utils/ocr.ts) instead of being fetched from a CDN, and precached below.
+const OCR_LANGUAGES = ['jpn', 'eng', 'jpn_vert']
+
+const fromModules = (path: string) => fileURLToPath(new URL(`./node_modules/${path}`, import.meta.url))
+
+const ocrAssets: Record<string, string> = {
+  'tesseract/worker.min.js': fromModules('tesseract.js/dist/worker.min.js'),
+  // LSTM-only cores (what the app asks for), with and without SIMD
+  'tesseract/core/tesseract-core-lstm.wasm.js': fromModules('tesseract.js-core/tesseract-core-lstm.wasm.js'),
+  'tesseract/core/tesseract-core-simd-lstm.wasm.js': fromModules('tesseract.js-core/tesseract-core-simd-lstm.wasm.js'),
+  ...Object.fromEntries(OCR_LANGUAGES.map(lang => [
+    `tesseract/lang/${lang}.traineddata.gz`,
+    fromModules(`@tesseract.js-data/${lang}/4.0.0_best_int/${lang}.traineddata.gz`)
+  ]))
+}
+
+function ocrAssetsPlugin(): Plugin {
+  return {
+    name: 'ocr-assets',
+    configureServer(server) {
+      server.middlewares.use((req, res, next) => {
+        const file = ocrAssets[(req.url ?? '').split('?')[0].replace(/^\//, '')]
+        if (!file) return next()
+        res.setHeader('Content-Type', file.endsWith('.js') ? 'text/javascript' : 'application/octet-stream')
+        res.end(readFileSync(file))
+      })
+    },
+    generateBundle() {
+      for (const [fileName, file] of Object.entries(ocrAssets)) {
+        this.emitFile({ type: 'asset', fileName, source: readFileSync(file) })
+      }
+    }
+  }
+}
 
 const manifestForPlugin: Partial<VitePWAOptions> = {
   registerType: "autoUpdate",
   includeAssets: [],
+  workbox: {
+    globPatterns: ['**/*.{js,mjs,css,html,svg,gz}'],
+    // The OCR core and language data are a few MB each
+    maximumFileSizeToCacheInBytes: 8 * 1024 * 1024
+  },
   manifest: {
     name: "Offline Memo App",
     short_name: "Memo",
@@ -36,6 +79,7 @@ const manifestForPlugin: Partial<VitePWAOptions> = {
 export default defineConfig({
   plugins: [
     react(),
+    ocrAssetsPlugin(),
     VitePWA(manifestForPlugin)
   ],
   base: './'